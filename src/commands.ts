@@ -0,0 +1,457 @@
+import * as vscode from 'vscode';
+import { ILanguageClient } from '@sqltools/types';
+import { ATHENA_REQUESTS, EXPORT_FORMATS, ExportFormat, RESULTS_DIRECTIVE } from './constants';
+
+const COMMAND_PREFIX = 'sqltools-athena-driver';
+
+/**
+ * Registers the Athena commands. Commands run from the explorer get the tree node they were invoked on.
+ */
+export const registerCommands = (extContext: vscode.ExtensionContext, client: ILanguageClient) => {
+  /**
+   * Resolves the connection a command applies to: the explorer node it was invoked on,
+   * or one of the open Athena connections.
+   */
+  const pickConnection = async (node?: any): Promise<string | undefined> => {
+    if (node?.conn?.id) {
+      return node.conn.id;
+    }
+    const connections: { id: string, name: string }[] = await client.sendRequest(ATHENA_REQUESTS.LIST_CONNECTIONS);
+    if (connections.length <= 1) {
+      if (!connections.length) vscode.window.showWarningMessage('There are no open Athena connections.');
+      return connections[0]?.id;
+    }
+    const picked = await vscode.window.showQuickPick(
+      connections.map((conn) => ({ label: conn.name, id: conn.id })),
+      { placeHolder: 'Athena connection' },
+    );
+    return picked?.id;
+  };
+
+  const register = (command: string, handler: (connId: string, node?: any) => Promise<void>) => {
+    extContext.subscriptions.push(vscode.commands.registerCommand(`${COMMAND_PREFIX}.${command}`, async (node?: any) => {
+      try {
+        const connId = await pickConnection(node);
+        if (connId) await handler(connId, node);
+      } catch (error) {
+        vscode.window.showErrorMessage(error?.message || String(error));
+      }
+    }));
+  };
+
+  const openEditor = async (content: string) => {
+    const document = await vscode.workspace.openTextDocument({ language: 'sql', content });
+    await vscode.window.showTextDocument(document);
+  };
+
+  register('refreshMetadata', async (connId) => {
+    await client.sendRequest(ATHENA_REQUESTS.REFRESH_METADATA, { connId });
+    vscode.window.showInformationMessage('Athena metadata cache refreshed.');
+  });
+
+  register('cancelQuery', async (connId) => {
+    const running: { queryExecutionId: string, query: string, startedAt: string }[] =
+      await client.sendRequest(ATHENA_REQUESTS.LIST_RUNNING_QUERIES, { connId });
+    if (!running.length) {
+      vscode.window.showInformationMessage('There are no running Athena queries on this connection.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: 'All running queries', description: `${running.length} running`, queryExecutionId: undefined },
+        ...running.map((query) => ({
+          label: query.query.replace(/\s+/g, ' ').substr(0, 80),
+          description: `${query.queryExecutionId}, started ${new Date(query.startedAt).toLocaleTimeString()}`,
+          queryExecutionId: query.queryExecutionId,
+        })),
+      ],
+      { placeHolder: 'Query to cancel' },
+    );
+    if (!picked) return;
+    const cancelled: number = await client.sendRequest(ATHENA_REQUESTS.CANCEL_QUERY, { connId, queryExecutionId: picked.queryExecutionId });
+    vscode.window.showInformationMessage(`Cancelled ${cancelled} Athena ${cancelled === 1 ? 'query' : 'queries'}.`);
+  });
+
+  register('managePreparedStatements', async (connId) => {
+    const statements: { StatementName: string, LastModifiedTime: string }[] =
+      await client.sendRequest(ATHENA_REQUESTS.LIST_PREPARED_STATEMENTS, { connId });
+    if (!statements.length) {
+      vscode.window.showInformationMessage('The workgroup has no prepared statements.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(
+      statements.map((statement) => ({
+        label: statement.StatementName,
+        description: `modified ${new Date(statement.LastModifiedTime).toLocaleString()}`,
+      })),
+      { placeHolder: 'Prepared statement' },
+    );
+    if (!picked) return;
+
+    const action = await vscode.window.showQuickPick(['Open', 'Drop'], { placeHolder: picked.label });
+    if (action === 'Open') {
+      const { QueryStatement }: { QueryStatement: string } =
+        await client.sendRequest(ATHENA_REQUESTS.GET_PREPARED_STATEMENT, { connId, statementName: picked.label });
+      await openEditor(`PREPARE ${picked.label} FROM\n${QueryStatement};\n\nEXECUTE ${picked.label};\n`);
+    } else if (action === 'Drop') {
+      const confirmed = await vscode.window.showWarningMessage(`Drop prepared statement ${picked.label}?`, { modal: true }, 'Drop');
+      if (confirmed !== 'Drop') return;
+      await client.sendRequest(ATHENA_REQUESTS.DELETE_PREPARED_STATEMENT, { connId, statementName: picked.label });
+      vscode.window.showInformationMessage(`Prepared statement ${picked.label} dropped.`);
+    }
+  });
+
+  /**
+   * The table or view of the explorer node a command was invoked on.
+   */
+  const tableOf = (node?: any) => {
+    const item = node?.metadata;
+    if (!item?.label || !item?.database) throw new Error('Run this command from a table or view in the explorer.');
+    return { label: item.label, database: item.database, schema: item.schema, type: item.type, isView: !!item.isView };
+  };
+
+  register('showCreateStatement', async (connId, node) => {
+    const ddl: string = await client.sendRequest(ATHENA_REQUESTS.SHOW_CREATE_STATEMENT, { connId, table: tableOf(node) });
+    await openEditor(`${ddl.trim()};\n`);
+  });
+
+  register('repairTable', async (connId, node) => {
+    const table = tableOf(node);
+    const lines: string[] = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Repairing ${table.database}.${table.label}…` },
+      () => client.sendRequest(ATHENA_REQUESTS.REPAIR_TABLE, { connId, table }),
+    );
+    const added = lines.filter((line) => /^Repair: Added partition/.test(line)).length;
+    vscode.window.showInformationMessage(`MSCK REPAIR TABLE ${table.database}.${table.label} added ${added} partition${added === 1 ? '' : 's'}.`);
+  });
+
+  register('timeTravelQuery', async (connId, node) => {
+    const snapshot = node?.metadata;
+    if (!snapshot?.snapshotId) throw new Error('Run this command from a snapshot of an Iceberg table in the explorer.');
+    const picked = await vscode.window.showQuickPick([
+      { label: 'As of snapshot', description: `FOR VERSION AS OF ${snapshot.snapshotId}`, byTimestamp: false },
+      { label: 'As of commit time', description: `FOR TIMESTAMP AS OF ${snapshot.committedAt}`, byTimestamp: true },
+    ], { placeHolder: `Read ${snapshot.database}.${snapshot.tableName}` });
+    if (!picked) return;
+    const query: string = await client.sendRequest(ATHENA_REQUESTS.TIME_TRAVEL_QUERY, {
+      connId,
+      snapshot: {
+        schema: snapshot.schema,
+        database: snapshot.database,
+        tableName: snapshot.tableName,
+        snapshotId: snapshot.snapshotId,
+        committedAt: snapshot.committedAt,
+      },
+      byTimestamp: picked.byTimestamp,
+    });
+    await openEditor(query);
+  });
+
+  register('optimizeTable', async (connId, node) => {
+    const table = tableOf(node);
+    if (!node?.metadata?.isIceberg) throw new Error(`${table.database}.${table.label} is not an Iceberg table.`);
+    const messages: string[] = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Optimizing ${table.database}.${table.label}…` },
+      () => client.sendRequest(ATHENA_REQUESTS.OPTIMIZE_TABLE, { connId, table }),
+    );
+    vscode.window.showInformationMessage(`Rewrote the data files of ${table.database}.${table.label}. ${messages[0] || ''}`.trim());
+    await refreshExplorer();
+  });
+
+  register('vacuumTable', async (connId, node) => {
+    const table = tableOf(node);
+    if (!node?.metadata?.isIceberg) throw new Error(`${table.database}.${table.label} is not an Iceberg table.`);
+    const confirmed = await vscode.window.showWarningMessage(
+      `Vacuum ${table.database}.${table.label}? Expired snapshots can no longer be read with time travel queries.`,
+      { modal: true },
+      'Vacuum',
+    );
+    if (confirmed !== 'Vacuum') return;
+    const messages: string[] = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Vacuuming ${table.database}.${table.label}…` },
+      () => client.sendRequest(ATHENA_REQUESTS.VACUUM_TABLE, { connId, table }),
+    );
+    vscode.window.showInformationMessage(`Vacuumed ${table.database}.${table.label}. ${messages[0] || ''}`.trim());
+    await refreshExplorer();
+  });
+
+  register('setDefaultDatabase', async (connId, node) => {
+    const item = node?.metadata;
+    if (!item?.database) throw new Error('Run this command from a database in the explorer.');
+    await client.sendRequest(ATHENA_REQUESTS.USE_DATABASE, { connId, catalog: item.schema, database: item.database });
+    vscode.window.showInformationMessage(`Queries on this connection now run in ${item.schema ? `${item.schema}.` : ''}${item.database}.`);
+  });
+
+  register('createTable', async (connId, node) => {
+    const item = node?.metadata;
+    if (!item?.database) throw new Error('Run this command from a database in the explorer.');
+    const location = await vscode.window.showInputBox({
+      prompt: `S3 prefix of the data files of the new table in ${item.database}`,
+      placeHolder: 's3://bucket/prefix/',
+      ignoreFocusOut: true,
+      validateInput: (value) => /^s3:\/\/[^/]+/.test(value.trim()) ? undefined : 'Enter an s3://bucket/prefix/ location.',
+    });
+    if (!location) return;
+
+    const table: { format: string, columns: unknown[], partitions: { name: string, values: string[] }[], fileCount: number } =
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Sampling ${location}…` },
+        () => client.sendRequest(ATHENA_REQUESTS.INFER_TABLE, { connId, location }),
+      );
+    const folders = location.replace(/\/+$/, '').split('/').filter((folder) => folder.indexOf('=') < 0);
+    const name = await vscode.window.showInputBox({
+      prompt: `Name of the table over ${table.fileCount} ${table.format} files with ${table.columns.length} columns`,
+      value: folders[folders.length - 1].toLowerCase().replace(/[^a-z0-9_]+/g, '_'),
+      ignoreFocusOut: true,
+    });
+    if (!name) return;
+
+    let projection = false;
+    if (table.partitions.length) {
+      const picked = await vscode.window.showQuickPick([
+        { label: 'Partition projection', description: 'Athena computes the partitions from table properties', projection: true },
+        { label: 'MSCK REPAIR TABLE', description: 'Load the partitions found now', projection: false },
+      ], { placeHolder: `Partitions by ${table.partitions.map((partition) => `${partition.name} (${partition.values.length} values)`).join(', ')}` });
+      if (!picked) return;
+      projection = picked.projection;
+    }
+
+    const ddl: string = await client.sendRequest(ATHENA_REQUESTS.CREATE_TABLE_STATEMENT, {
+      connId,
+      table,
+      options: { database: item.database, table: name, projection },
+    });
+    await openEditor(ddl);
+  });
+
+  register('queryHistory', async (connId) => {
+    const history: {
+      queryExecutionId: string,
+      query: string,
+      state: string,
+      stateChangeReason?: string,
+      submittedAt?: string,
+      durationMillis?: number,
+      dataScannedInBytes?: number,
+    }[] = await client.sendRequest(ATHENA_REQUESTS.LIST_QUERY_HISTORY, { connId });
+    if (!history.length) {
+      vscode.window.showInformationMessage('The workgroup has no recent queries.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(
+      history.map((execution) => ({
+        label: (execution.query || '').replace(/\s+/g, ' ').substr(0, 100),
+        description: [
+          execution.state,
+          execution.durationMillis !== undefined && `${(execution.durationMillis / 1000).toFixed(1)} s`,
+          execution.dataScannedInBytes !== undefined && `${formatSize(execution.dataScannedInBytes)} scanned`,
+        ].filter(Boolean).join(' · '),
+        detail: `${execution.submittedAt ? new Date(execution.submittedAt).toLocaleString() : ''} ${execution.queryExecutionId}`.trim(),
+        execution,
+      })),
+      { placeHolder: 'Succeeded queries reopen their results, others open their SQL', matchOnDescription: true },
+    );
+    if (!picked) return;
+
+    const { execution } = picked;
+    if (execution.state !== 'SUCCEEDED') {
+      await openEditor(`-- ${execution.state}${execution.stateChangeReason ? `: ${execution.stateChangeReason}` : ''}\n${execution.query};\n`);
+      return;
+    }
+    const commented = (execution.query || '').split('\n').map((line) => `-- ${line}`).join('\n');
+    await vscode.commands.executeCommand(
+      'sqltools.executeQuery',
+      `-- ${RESULTS_DIRECTIVE} ${execution.queryExecutionId}\n${commented}`,
+      { connNameOrId: connId },
+    );
+  });
+
+  interface NamedQuery { NamedQueryId: string, Name: string, Description?: string, Database: string, QueryString: string }
+
+  const namedQueryOf = async (connId: string, node?: any): Promise<NamedQuery> => {
+    const namedQueryId = node?.metadata?.namedQueryId;
+    if (!namedQueryId) throw new Error('Run this command from a saved query in the explorer.');
+    return client.sendRequest(ATHENA_REQUESTS.GET_NAMED_QUERY, { connId, namedQueryId });
+  };
+
+  /** the selection of the active editor, or its whole text when nothing is selected */
+  const editorQuery = () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) return '';
+    return (editor.selection.isEmpty ? editor.document.getText() : editor.document.getText(editor.selection)).trim();
+  };
+
+  const refreshExplorer = () => vscode.commands.executeCommand('sqltools.refreshTree').then(undefined, () => undefined);
+
+  register('openNamedQuery', async (connId, node) => {
+    const namedQuery = await namedQueryOf(connId, node);
+    const header = `-- ${namedQuery.Name}${namedQuery.Description ? `: ${namedQuery.Description}` : ''}`;
+    await openEditor(`${header}\n${namedQuery.QueryString}\n`);
+  });
+
+  register('runNamedQuery', async (connId, node) => {
+    const namedQuery = await namedQueryOf(connId, node);
+    await vscode.commands.executeCommand('sqltools.executeQuery', namedQuery.QueryString, { connNameOrId: connId });
+  });
+
+  register('saveNamedQuery', async (connId) => {
+    const queryString = editorQuery();
+    if (!queryString) throw new Error('Select the SQL to save in an editor first.');
+    const name = await vscode.window.showInputBox({ prompt: 'Name of the saved query', ignoreFocusOut: true });
+    if (!name) return;
+    const description = await vscode.window.showInputBox({ prompt: 'Description (optional)', ignoreFocusOut: true });
+    if (description === undefined) return;
+    const database = await vscode.window.showInputBox({
+      prompt: 'Database of the saved query, empty for the connection\'s default database',
+      ignoreFocusOut: true,
+    });
+    if (database === undefined) return;
+
+    await client.sendRequest(ATHENA_REQUESTS.CREATE_NAMED_QUERY, { connId, namedQuery: { name, description, database, queryString } });
+    vscode.window.showInformationMessage(`Saved query ${name} created.`);
+    await refreshExplorer();
+  });
+
+  register('updateNamedQuery', async (connId, node) => {
+    const namedQuery = await namedQueryOf(connId, node);
+    const name = await vscode.window.showInputBox({ prompt: 'Name of the saved query', value: namedQuery.Name, ignoreFocusOut: true });
+    if (!name) return;
+    const description = await vscode.window.showInputBox({ prompt: 'Description (optional)', value: namedQuery.Description || '', ignoreFocusOut: true });
+    if (description === undefined) return;
+
+    let queryString = namedQuery.QueryString;
+    const edited = editorQuery();
+    if (edited && edited !== queryString.trim()) {
+      const replace = await vscode.window.showQuickPick(
+        ['Keep the saved SQL', 'Replace it with the active editor\'s SQL'],
+        { placeHolder: `SQL of ${namedQuery.Name}` },
+      );
+      if (!replace) return;
+      if (replace !== 'Keep the saved SQL') queryString = edited;
+    }
+
+    await client.sendRequest(ATHENA_REQUESTS.UPDATE_NAMED_QUERY, {
+      connId,
+      namedQueryId: namedQuery.NamedQueryId,
+      namedQuery: { name, description, queryString },
+    });
+    vscode.window.showInformationMessage(`Saved query ${name} updated.`);
+    await refreshExplorer();
+  });
+
+  register('deleteNamedQuery', async (connId, node) => {
+    const namedQuery = await namedQueryOf(connId, node);
+    const confirmed = await vscode.window.showWarningMessage(`Delete saved query ${namedQuery.Name}?`, { modal: true }, 'Delete');
+    if (confirmed !== 'Delete') return;
+    await client.sendRequest(ATHENA_REQUESTS.DELETE_NAMED_QUERY, { connId, namedQueryId: namedQuery.NamedQueryId });
+    vscode.window.showInformationMessage(`Saved query ${namedQuery.Name} deleted.`);
+    await refreshExplorer();
+  });
+
+  register('exportQuery', async (connId) => {
+    const query = editorQuery();
+    if (!query) throw new Error('Open or select the query to export in an editor first.');
+
+    const method = await vscode.window.showQuickPick([
+      { label: 'UNLOAD', description: 'Write the results to S3', method: 'UNLOAD' },
+      { label: 'CREATE TABLE AS SELECT', description: 'Write the results to S3 and create a table over them', method: 'CTAS' },
+    ], { placeHolder: 'Export with' });
+    if (!method) return;
+    const format = <ExportFormat>await vscode.window.showQuickPick(Object.keys(EXPORT_FORMATS), { placeHolder: 'File format' });
+    if (!format) return;
+    const compression = await vscode.window.showQuickPick(
+      [{ label: 'Default', compression: undefined }, ...EXPORT_FORMATS[format].map((name) => ({ label: name, compression: name }))],
+      { placeHolder: `${format} compression` },
+    );
+    if (!compression) return;
+    const partitions = await vscode.window.showInputBox({
+      prompt: 'Columns to partition the files by, comma separated (optional). They must be the last columns of the query.',
+      ignoreFocusOut: true,
+    });
+    if (partitions === undefined) return;
+    let table: string;
+    if (method.method === 'CTAS') {
+      table = await vscode.window.showInputBox({ prompt: 'Table to create, as table or database.table', ignoreFocusOut: true });
+      if (!table) return;
+    }
+    const location = await vscode.window.showInputBox({
+      prompt: 'Empty S3 prefix to write the files to',
+      placeHolder: 's3://bucket/prefix/',
+      ignoreFocusOut: true,
+      validateInput: (value) => /^s3:\/\/[^/]+/.test(value.trim()) ? undefined : 'Enter an s3://bucket/prefix/ location.',
+    });
+    if (!location) return;
+
+    const exported: { location: string, files: { location: string, size: number }[], totalSize: number, messages: string[] } =
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Exporting to ${location}…` },
+        () => client.sendRequest(ATHENA_REQUESTS.EXPORT_QUERY, {
+          connId,
+          query,
+          options: {
+            method: method.method,
+            format,
+            compression: compression.compression,
+            partitionedBy: partitions.split(',').map((column) => column.trim()).filter(Boolean),
+            location,
+            table,
+          },
+        }),
+      );
+    if (method.method === 'CTAS') await refreshExplorer();
+
+    const action = await vscode.window.showInformationMessage(
+      `Wrote ${exported.files.length} file${exported.files.length === 1 ? '' : 's'}, ${formatSize(exported.totalSize)}, to ${exported.location}. ${exported.messages[0] || ''}`.trim(),
+      'Download', 'List Files',
+    );
+    if (action === 'List Files') {
+      await openEditor(exported.files.map((file) => `-- ${file.location} (${formatSize(file.size)})`).join('\n') + '\n');
+    } else if (action === 'Download') {
+      const [directory] = await vscode.window.showOpenDialog({ canSelectFiles: false, canSelectFolders: true, openLabel: 'Download Here' }) || [];
+      if (!directory) return;
+      const downloaded: { count: number, totalSize: number } = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Downloading ${exported.location}…` },
+        () => client.sendRequest(ATHENA_REQUESTS.DOWNLOAD_EXPORT, { connId, location: exported.location, directory: directory.fsPath }),
+      );
+      vscode.window.showInformationMessage(`Downloaded ${downloaded.count} files, ${formatSize(downloaded.totalSize)}, to ${directory.fsPath}.`);
+    }
+  });
+
+  register('saveResults', async (connId) => {
+    const results: { index: number, query: string, rows: number, columns: number }[] =
+      await client.sendRequest(ATHENA_REQUESTS.LIST_LAST_RESULTS, { connId });
+    if (!results.length) {
+      vscode.window.showInformationMessage('There are no results to save, run a query first.');
+      return;
+    }
+    const result = results.length === 1 ? results[0] : await vscode.window.showQuickPick(
+      results.map((item) => ({ ...item, label: item.query.replace(/\s+/g, ' ').substr(0, 80), description: `${item.rows} rows` })),
+      { placeHolder: 'Result to save' },
+    );
+    if (!result) return;
+    const format = await vscode.window.showQuickPick(
+      [
+        { label: 'CSV', format: 'CSV', extension: 'csv' },
+        { label: 'JSON', format: 'JSON', extension: 'json' },
+        { label: 'Parquet', format: 'PARQUET', extension: 'parquet' },
+      ],
+      { placeHolder: `Save ${result.rows} rows as` },
+    );
+    if (!format) return;
+    const file = await vscode.window.showSaveDialog({ filters: { [format.label]: [format.extension] } });
+    if (!file) return;
+
+    const saved: { rows: number } = await client.sendRequest(ATHENA_REQUESTS.SAVE_RESULTS, { connId, index: result.index, format: format.format, file: file.fsPath });
+    vscode.window.showInformationMessage(`Saved ${saved.rows} rows to ${file.fsPath}.`);
+  });
+};
+
+const formatSize = (bytes: number) => {
+  const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+  let unit = 0;
+  while (bytes >= 1024 && unit < units.length - 1) {
+    bytes /= 1024;
+    unit++;
+  }
+  return `${unit ? bytes.toFixed(1) : bytes} ${units[unit]}`;
+};
@@ -6,3 +6,75 @@ import { IDriverAlias } from '@sqltools/types';
 export const DRIVER_ALIASES: IDriverAlias[] = [
   { displayName: 'Athena', value: 'driver.athena' },
 ];
+
+/**
+ * Custom requests the extension sends to the language server plugin
+ */
+export const ATHENA_REQUESTS = {
+  LIST_CONNECTIONS: 'athena/listConnections',
+  REFRESH_METADATA: 'athena/refreshMetadata',
+  LIST_RUNNING_QUERIES: 'athena/listRunningQueries',
+  CANCEL_QUERY: 'athena/cancelQuery',
+  LIST_PREPARED_STATEMENTS: 'athena/listPreparedStatements',
+  GET_PREPARED_STATEMENT: 'athena/getPreparedStatement',
+  DELETE_PREPARED_STATEMENT: 'athena/deletePreparedStatement',
+  SHOW_CREATE_STATEMENT: 'athena/showCreateStatement',
+  REPAIR_TABLE: 'athena/repairTable',
+  USE_DATABASE: 'athena/useDatabase',
+  LIST_QUERY_HISTORY: 'athena/listQueryHistory',
+  GET_NAMED_QUERY: 'athena/getNamedQuery',
+  CREATE_NAMED_QUERY: 'athena/createNamedQuery',
+  UPDATE_NAMED_QUERY: 'athena/updateNamedQuery',
+  DELETE_NAMED_QUERY: 'athena/deleteNamedQuery',
+  TIME_TRAVEL_QUERY: 'athena/timeTravelQuery',
+  OPTIMIZE_TABLE: 'athena/optimizeTable',
+  VACUUM_TABLE: 'athena/vacuumTable',
+  EXPORT_QUERY: 'athena/exportQuery',
+  DOWNLOAD_EXPORT: 'athena/downloadExport',
+  LIST_LAST_RESULTS: 'athena/listLastResults',
+  SAVE_RESULTS: 'athena/saveResults',
+  INFER_TABLE: 'athena/inferTable',
+  CREATE_TABLE_STATEMENT: 'athena/createTableStatement',
+};
+
+/**
+ * Requests the language server plugin sends to the extension, mostly to prompt the user
+ */
+export const ATHENA_CLIENT_REQUESTS = {
+  CONFIRM: 'athena/confirm',
+  PROMPT: 'athena/prompt',
+  PROMPT_PARAMETERS: 'athena/promptParameters',
+};
+
+/**
+ * Leading comment of a query that reopens the results of a past execution: `-- athena:results <id>`
+ */
+export const RESULTS_DIRECTIVE = 'athena:results';
+
+/**
+ * Context value of the saved query nodes, which the saved query commands are shown on
+ */
+export const NAMED_QUERY_CONTEXT = 'athena.namedQuery';
+
+/**
+ * Context value of Iceberg table nodes, which the optimize and vacuum commands are shown on
+ */
+export const ICEBERG_TABLE_CONTEXT = 'athena.icebergTable';
+
+/**
+ * Context value of the snapshot nodes of an Iceberg table, which the time travel command is shown on
+ */
+export const ICEBERG_SNAPSHOT_CONTEXT = 'athena.icebergSnapshot';
+
+/**
+ * Formats `UNLOAD` and CTAS write, with the compressions Athena supports for each.
+ */
+export const EXPORT_FORMATS = {
+  PARQUET: ['GZIP', 'SNAPPY', 'ZSTD', 'LZ4'],
+  ORC: ['ZLIB', 'SNAPPY', 'ZSTD', 'LZ4'],
+  JSON: ['GZIP', 'BZIP2', 'ZSTD', 'LZ4', 'DEFLATE'],
+  CSV: ['GZIP', 'BZIP2', 'ZSTD', 'LZ4', 'DEFLATE'],
+  AVRO: ['DEFLATE', 'SNAPPY', 'ZSTD', 'BZIP2'],
+};
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
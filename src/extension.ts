@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import { IExtension, IExtensionPlugin, IDriverExtensionApi } from '@sqltools/types';
 import { ExtensionContext } from 'vscode';
 import { DRIVER_ALIASES } from './constants';
+import { registerCommands } from './commands';
+import { registerPromptHandlers } from './prompts';
 const { publisher, name } = require('../package.json');
 // import { workspace } from 'vscode';
 // import { Uri } from 'vscode';
@@ -39,6 +41,10 @@ export async function activate(extContext: ExtensionContext): Promise<IDriverExt
     }
   };
   api.registerPlugin(plugin);
+
+  registerPromptHandlers(extContext, api.client);
+  registerCommands(extContext, api.client);
+
   return {
     driverName,
     parseBeforeSaveConnection: ({ connInfo }) => {
@@ -0,0 +1,44 @@
+const UNITS: { [unit: string]: number } = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12,
+  pb: 1e15,
+  kib: 1024,
+  mib: Math.pow(1024, 2),
+  gib: Math.pow(1024, 3),
+  tib: Math.pow(1024, 4),
+  pib: Math.pow(1024, 5),
+};
+
+/** Athena bills at least 10 MB per query */
+const MINIMUM_BILLED_BYTES = 10 * 1e6;
+
+export const DEFAULT_PRICE_PER_TB = 5;
+
+/**
+ * Parses sizes like `10 GiB`, `500MB` or a plain number of bytes. Empty values mean no limit.
+ */
+export const parseBytes = (value: string | number | undefined): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return value;
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(value);
+  const multiplier = match && UNITS[(match[2] || 'b').toLowerCase()];
+  if (!multiplier) {
+    throw new Error(`Invalid size "${value}". Use a number followed by a unit, like "10 GiB".`);
+  }
+
+  return Number(match[1]) * multiplier;
+};
+
+/**
+ * Estimated price in USD of scanning `bytes`, given the price of one TB.
+ */
+export const estimateCost = (bytes: number, pricePerTB: number = DEFAULT_PRICE_PER_TB) => {
+  if (!bytes) return 0;
+  return Math.max(bytes, MINIMUM_BILLED_BYTES) / 1e12 * pricePerTB;
+};
+
+export const formatCost = (cost: number) => `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
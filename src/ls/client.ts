@@ -0,0 +1,108 @@
+import { Athena, AWSError, Credentials, Request } from 'aws-sdk';
+
+export interface RetryOptions {
+  /** how many times a throttled or otherwise retryable API call is retried */
+  maxRetries: number;
+  /** base delay of the exponential backoff, in milliseconds */
+  retryBaseDelay: number;
+  /** longest wait between two `GetQueryExecution` polls, in milliseconds */
+  maxPollInterval: number;
+  /** how many times a query that failed for a transient reason is started again */
+  maxQueryRetries: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 5,
+  retryBaseDelay: 200,
+  maxPollInterval: 5000,
+  maxQueryRetries: 2,
+};
+
+const FIRST_POLL_INTERVAL = 200;
+const MAX_RETRY_DELAY = 20000;
+
+const RETRYABLE_ERROR_CODES = new Set([
+  'ThrottlingException',
+  'TooManyRequestsException',
+  'Throttling',
+  'RequestLimitExceeded',
+  'InternalServerException',
+  'ServiceUnavailable',
+]);
+
+const EXPIRED_CREDENTIALS_ERROR_CODES = new Set([
+  'ExpiredToken',
+  'ExpiredTokenException',
+  'RequestExpired',
+]);
+
+/**
+ * `StateChangeReason`s of failed queries that are worth starting again
+ */
+const TRANSIENT_FAILURES = [
+  /INTERNAL_ERROR_QUERY_ENGINE/,
+  /Amazon Athena experienced an internal error/i,
+  /Please reduce your request rate/i,
+  /ThrottlingException/,
+  /SlowDown/,
+];
+
+export const sleep = (time: number) => new Promise((resolve) => setTimeout(() => resolve(true), time));
+
+/**
+ * Wraps the Athena client so every call is retried with exponential backoff and jitter
+ * when AWS throttles it or fails with a retryable error.
+ */
+export default class AthenaClient {
+  constructor(public readonly athena: Athena, private readonly options: RetryOptions = DEFAULT_RETRY_OPTIONS) { }
+
+  /**
+   * Sends a request built from the Athena client, e.g. `db.request((athena) => athena.listDatabases(params))`.
+   */
+  public async request<T>(build: (athena: Athena) => Request<T, AWSError>): Promise<T> {
+    let refreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await build(this.athena).promise();
+      } catch (error) {
+        if (!refreshed && EXPIRED_CREDENTIALS_ERROR_CODES.has(error?.code) && this.athena.config.credentials instanceof Credentials) {
+          // credentials expired before the SDK noticed, e.g. during a long running query
+          refreshed = true;
+          await this.athena.config.credentials.refreshPromise();
+          continue;
+        }
+        if (attempt >= this.options.maxRetries || !AthenaClient.isRetryable(error)) throw error;
+        await sleep(this.backoff(attempt));
+      }
+    }
+  }
+
+  /**
+   * Full jitter backoff: a random delay up to `retryBaseDelay * 2^attempt`, capped.
+   */
+  public backoff(attempt: number) {
+    return Math.random() * Math.min(MAX_RETRY_DELAY, this.options.retryBaseDelay * Math.pow(2, attempt));
+  }
+
+  /**
+   * Wait before the next status poll: starts short for quick queries and grows up to `maxPollInterval`.
+   */
+  public pollInterval(attempt: number) {
+    const interval = Math.min(this.options.maxPollInterval, FIRST_POLL_INTERVAL * Math.pow(1.5, attempt));
+    return interval / 2 + Math.random() * interval / 2;
+  }
+
+  public get maxQueryRetries() {
+    return this.options.maxQueryRetries;
+  }
+
+  public static isRetryable(error: AWSError) {
+    return !!error && (error.retryable || RETRYABLE_ERROR_CODES.has(error.code));
+  }
+
+  public static isTransientFailure(execution: Athena.QueryExecution) {
+    const reason = execution.Status?.StateChangeReason || '';
+    return !!execution.Status?.AthenaError?.Retryable || TRANSIENT_FAILURES.some((pattern) => pattern.test(reason));
+  }
+}
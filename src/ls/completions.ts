@@ -0,0 +1,520 @@
+import { NSDatabase } from '@sqltools/types';
+
+/**
+ * Keywords of Athena engine version 3 (Trino), including the Hive DDL keywords Athena accepts.
+ */
+const KEYWORDS = [
+  'ADD', 'ALL', 'ALTER', 'ANALYZE', 'AND', 'ANY', 'ARRAY', 'AS', 'ASC', 'AT', 'BERNOULLI', 'BETWEEN', 'BUCKETS', 'BY',
+  'CALL', 'CASCADE', 'CASE', 'CAST', 'CATALOGS', 'CLUSTERED', 'COLUMN', 'COLUMNS', 'COMMENT', 'COMMIT', 'CONSTRAINT',
+  'CREATE', 'CROSS', 'CUBE', 'CURRENT', 'CURRENT_CATALOG', 'CURRENT_DATE', 'CURRENT_PATH', 'CURRENT_ROLE',
+  'CURRENT_SCHEMA', 'CURRENT_TIME', 'CURRENT_TIMESTAMP', 'CURRENT_USER', 'DATA', 'DATABASE', 'DATABASES',
+  'DBPROPERTIES', 'DEALLOCATE', 'DEFAULT', 'DELETE', 'DESC', 'DESCRIBE', 'DISTINCT', 'DISTRIBUTED', 'DROP', 'ELSE',
+  'END', 'ESCAPE', 'ESCAPED', 'EXCEPT', 'EXCLUDING', 'EXECUTE', 'EXISTS', 'EXPLAIN', 'EXTERNAL', 'EXTRACT', 'FALSE',
+  'FETCH', 'FIELDS', 'FILTER', 'FIRST', 'FOLLOWING', 'FOR', 'FORMAT', 'FROM', 'FULL', 'FUNCTION', 'FUNCTIONS',
+  'GRANT', 'GRAPHVIZ', 'GROUP', 'GROUPING', 'GROUPS', 'HAVING', 'IF', 'IGNORE', 'IN', 'INCLUDING', 'INNER',
+  'INPUTFORMAT', 'INSERT', 'INTERSECT', 'INTERVAL', 'INTO', 'IO', 'IS', 'JOIN', 'JSON', 'JSON_ARRAY', 'JSON_EXISTS',
+  'JSON_OBJECT', 'JSON_QUERY', 'JSON_VALUE', 'LAST', 'LATERAL', 'LEFT', 'LIKE', 'LIMIT', 'LINES', 'LISTAGG',
+  'LOCALTIME', 'LOCALTIMESTAMP', 'LOCATION', 'LOGICAL', 'MAP', 'MATCHED', 'MATERIALIZED', 'MERGE', 'MSCK',
+  'NATURAL', 'NEXT', 'NFC', 'NFD', 'NFKC', 'NFKD', 'NO', 'NORMALIZE', 'NOT', 'NULL', 'NULLS', 'OF', 'OFFSET', 'ON',
+  'ONLY', 'OPTIMIZE', 'OR', 'ORDER', 'ORDINALITY', 'OUTER', 'OUTPUTFORMAT', 'OVER', 'PARTITION', 'PARTITIONED',
+  'PARTITIONS', 'PRECEDING', 'PREPARE', 'PROPERTIES', 'PURGE', 'RANGE', 'RECURSIVE', 'RENAME', 'REPAIR', 'REPLACE',
+  'RESPECT', 'RESTRICT', 'REVOKE', 'REWRITE', 'RIGHT', 'ROLLBACK', 'ROLLUP', 'ROW', 'ROWS', 'SCHEMA', 'SCHEMAS',
+  'SELECT', 'SERDE', 'SERDEPROPERTIES', 'SESSION', 'SET', 'SETS', 'SHOW', 'SKIP', 'SOME', 'STATS', 'STORED',
+  'SYSTEM', 'SYSTEM_TIME', 'SYSTEM_VERSION', 'TABLE', 'TABLES', 'TABLESAMPLE', 'TBLPROPERTIES', 'TERMINATED', 'THEN',
+  'TIES', 'TO', 'TRANSACTION', 'TRIM', 'TRUE', 'TRUNCATE', 'TRY_CAST', 'TYPE', 'UESCAPE', 'UNBOUNDED', 'UNION',
+  'UNLOAD', 'UNNEST', 'UPDATE', 'USE', 'USING', 'VACUUM', 'VALIDATE', 'VALUES', 'VERBOSE', 'VIEW', 'VIEWS', 'WHEN',
+  'WHERE', 'WINDOW', 'WITH', 'WITHIN', 'WITHOUT', 'ZONE',
+];
+
+/** keywords listed before the others */
+const COMMON_KEYWORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'BY', 'ORDER', 'LIMIT', 'JOIN', 'LEFT', 'INNER', 'ON', 'AS', 'AND', 'OR',
+  'WITH', 'CREATE', 'TABLE', 'INSERT', 'INTO', 'VALUES', 'UNION', 'DISTINCT', 'HAVING', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
+]);
+
+/**
+ * [type, description]
+ */
+const DATA_TYPES: [string, string][] = [
+  ['BOOLEAN', 'true or false.'],
+  ['TINYINT', '8-bit signed integer, from -128 to 127.'],
+  ['SMALLINT', '16-bit signed integer, from -32768 to 32767.'],
+  ['INTEGER', '32-bit signed integer. `INT` is an alias used in DDL.'],
+  ['INT', '32-bit signed integer, the DDL name of `INTEGER`.'],
+  ['BIGINT', '64-bit signed integer.'],
+  ['REAL', '32-bit single precision floating point number.'],
+  ['FLOAT', '32-bit floating point number, the DDL name of `REAL`.'],
+  ['DOUBLE', '64-bit double precision floating point number.'],
+  ['DECIMAL', 'Fixed precision decimal number, `DECIMAL(precision, scale)` with a precision up to 38.'],
+  ['VARCHAR', 'Variable length character data, optionally with a maximum length: `VARCHAR(65535)`.'],
+  ['CHAR', 'Fixed length character data: `CHAR(10)`.'],
+  ['STRING', 'String type used in `CREATE TABLE` DDL, read as `VARCHAR`.'],
+  ['VARBINARY', 'Variable length binary data.'],
+  ['BINARY', 'Binary type used in `CREATE TABLE` DDL, read as `VARBINARY`.'],
+  ['JSON', 'JSON value, e.g. the result of `json_parse` or `CAST(x AS JSON)`.'],
+  ['DATE', 'Calendar date, e.g. `DATE \'2024-01-31\'`.'],
+  ['TIME', 'Time of day without a time zone, e.g. `TIME \'01:02:03.456\'`.'],
+  ['TIMESTAMP', 'Date and time of day without a time zone, with millisecond precision by default.'],
+  ['TIMESTAMP WITH TIME ZONE', 'Instant in time with a time zone, e.g. `TIMESTAMP \'2024-01-31 10:00:00 UTC\'`.'],
+  ['INTERVAL YEAR TO MONTH', 'Span of years and months, e.g. `INTERVAL \'3\' MONTH`.'],
+  ['INTERVAL DAY TO SECOND', 'Span of days, hours, minutes, seconds and milliseconds, e.g. `INTERVAL \'2\' DAY`.'],
+  ['ARRAY', 'Ordered collection: `ARRAY(element_type)`, or `ARRAY<element_type>` in DDL.'],
+  ['MAP', 'Key/value collection: `MAP(key_type, value_type)`, or `MAP<key_type, value_type>` in DDL.'],
+  ['ROW', 'Structure of named fields: `ROW(name type, ...)`.'],
+  ['STRUCT', 'Structure of named fields used in DDL: `STRUCT<name:type, ...>`, read as `ROW`.'],
+  ['IPADDRESS', 'IPv4 or IPv6 address.'],
+  ['IPPREFIX', 'IPv4 or IPv6 network prefix in CIDR notation.'],
+  ['UUID', 'Universally unique identifier.'],
+  ['HYPERLOGLOG', 'Sketch for approximate distinct counts, see `approx_set`.'],
+  ['P4HYPERLOGLOG', 'HyperLogLog sketch that is always dense.'],
+  ['QDIGEST', 'Quantile digest for approximate percentiles, see `qdigest_agg`.'],
+  ['TDIGEST', 'T-digest for approximate percentiles, see `tdigest_agg`.'],
+  ['SETDIGEST', 'Sketch for approximate set similarity, see `make_set_digest`.'],
+];
+
+/**
+ * [signature, return type, description], by category
+ */
+const FUNCTIONS: { [category: string]: [string, string, string][] } = {
+  'Conditional': [
+    ['coalesce(value1, value2[, ...])', 'same as arguments', 'Returns the first non-null value.'],
+    ['if(condition, true_value[, false_value])', 'same as values', 'Returns `true_value` when `condition` is true, `false_value` (or NULL) otherwise.'],
+    ['nullif(value1, value2)', 'same as value1', 'Returns NULL when `value1` equals `value2`, `value1` otherwise.'],
+    ['try(expression)', 'same as expression', 'Evaluates `expression` and returns NULL instead of failing on errors like division by zero or bad casts.'],
+    ['try_cast(value AS type)', 'type', 'Like `CAST`, but returns NULL when the cast fails.'],
+    ['typeof(expr)', 'varchar', 'Returns the name of the type of `expr`.'],
+    ['greatest(value1, value2, ...)', 'same as arguments', 'Returns the largest of the values.'],
+    ['least(value1, value2, ...)', 'same as arguments', 'Returns the smallest of the values.'],
+  ],
+  'Math': [
+    ['abs(x)', 'same as x', 'Absolute value of `x`.'],
+    ['cbrt(x)', 'double', 'Cube root of `x`.'],
+    ['ceil(x)', 'same as x', 'Rounds `x` up to the nearest integer. Alias of `ceiling`.'],
+    ['ceiling(x)', 'same as x', 'Rounds `x` up to the nearest integer.'],
+    ['degrees(x)', 'double', 'Converts the angle `x` from radians to degrees.'],
+    ['e()', 'double', 'Euler\'s number.'],
+    ['exp(x)', 'double', 'Euler\'s number raised to the power of `x`.'],
+    ['floor(x)', 'same as x', 'Rounds `x` down to the nearest integer.'],
+    ['ln(x)', 'double', 'Natural logarithm of `x`.'],
+    ['log(b, x)', 'double', 'Base `b` logarithm of `x`.'],
+    ['log2(x)', 'double', 'Base 2 logarithm of `x`.'],
+    ['log10(x)', 'double', 'Base 10 logarithm of `x`.'],
+    ['mod(n, m)', 'same as arguments', 'Modulus (remainder) of `n` divided by `m`.'],
+    ['pi()', 'double', 'The constant Pi.'],
+    ['pow(x, p)', 'double', 'Raises `x` to the power of `p`. Alias of `power`.'],
+    ['power(x, p)', 'double', 'Raises `x` to the power of `p`.'],
+    ['radians(x)', 'double', 'Converts the angle `x` from degrees to radians.'],
+    ['rand()', 'double', 'Random value in the range 0.0 <= x < 1.0. Alias of `random`.'],
+    ['random([n])', 'same as n', 'Random value in 0.0 <= x < 1.0, or a random integer in 0 <= x < `n`.'],
+    ['round(x[, d])', 'same as x', 'Rounds `x` to `d` decimal places (0 by default).'],
+    ['sign(x)', 'same as x', 'Signum of `x`: -1, 0 or 1.'],
+    ['sqrt(x)', 'double', 'Square root of `x`.'],
+    ['truncate(x[, n])', 'double', 'Truncates `x` to `n` decimal places, dropping the rest.'],
+    ['width_bucket(x, bound1, bound2, n)', 'bigint', 'Bucket number of `x` in an equi-width histogram of `n` buckets between `bound1` and `bound2`.'],
+    ['from_base(string, radix)', 'bigint', 'Parses `string` as a number in base `radix`.'],
+    ['to_base(x, radix)', 'varchar', 'Writes `x` in base `radix`.'],
+    ['is_finite(x)', 'boolean', 'Whether `x` is finite.'],
+    ['is_infinite(x)', 'boolean', 'Whether `x` is infinite.'],
+    ['is_nan(x)', 'boolean', 'Whether `x` is not-a-number.'],
+    ['infinity()', 'double', 'The constant positive infinity.'],
+    ['nan()', 'double', 'The constant not-a-number.'],
+    ['sin(x)', 'double', 'Sine of `x` radians.'],
+    ['cos(x)', 'double', 'Cosine of `x` radians.'],
+    ['tan(x)', 'double', 'Tangent of `x` radians.'],
+    ['asin(x)', 'double', 'Arc sine of `x`.'],
+    ['acos(x)', 'double', 'Arc cosine of `x`.'],
+    ['atan(x)', 'double', 'Arc tangent of `x`.'],
+    ['atan2(y, x)', 'double', 'Arc tangent of `y / x`.'],
+    ['cosine_similarity(x, y)', 'double', 'Cosine similarity of the sparse vectors (maps) `x` and `y`.'],
+  ],
+  'String': [
+    ['chr(n)', 'varchar', 'The Unicode code point `n` as a single character string.'],
+    ['codepoint(string)', 'integer', 'Unicode code point of the only character of `string`.'],
+    ['concat(string1, ..., stringN)', 'varchar', 'Concatenates the strings. The `||` operator does the same.'],
+    ['concat_ws(separator, string1, ..., stringN)', 'varchar', 'Concatenates the strings with `separator` between them, skipping NULLs.'],
+    ['format(format, args...)', 'varchar', 'Formats the arguments with a Java format string.'],
+    ['hamming_distance(string1, string2)', 'bigint', 'Hamming distance between two strings of the same length.'],
+    ['length(string)', 'bigint', 'Length of `string` in characters.'],
+    ['levenshtein_distance(string1, string2)', 'bigint', 'Levenshtein edit distance between the strings.'],
+    ['lower(string)', 'varchar', 'Converts `string` to lowercase.'],
+    ['upper(string)', 'varchar', 'Converts `string` to uppercase.'],
+    ['lpad(string, size, padstring)', 'varchar', 'Left pads `string` to `size` characters with `padstring`.'],
+    ['rpad(string, size, padstring)', 'varchar', 'Right pads `string` to `size` characters with `padstring`.'],
+    ['ltrim(string)', 'varchar', 'Removes leading whitespace.'],
+    ['rtrim(string)', 'varchar', 'Removes trailing whitespace.'],
+    ['trim(string)', 'varchar', 'Removes leading and trailing whitespace. `trim([LEADING | TRAILING | BOTH] chars FROM string)` removes other characters.'],
+    ['luhn_check(string)', 'boolean', 'Whether a string of digits is valid according to the Luhn algorithm.'],
+    ['position(substring IN string)', 'bigint', 'Position of the first occurrence of `substring` in `string`, starting at 1, or 0 when not found.'],
+    ['replace(string, search[, replace])', 'varchar', 'Replaces every `search` in `string` with `replace` (removes them when omitted).'],
+    ['reverse(string)', 'varchar', 'Reverses `string`.'],
+    ['split(string, delimiter[, limit])', 'array(varchar)', 'Splits `string` on `delimiter`.'],
+    ['split_part(string, delimiter, index)', 'varchar', 'Field `index` (starting at 1) of `string` split on `delimiter`.'],
+    ['split_to_map(string, entryDelimiter, keyValueDelimiter)', 'map(varchar, varchar)', 'Splits `string` into a map of entries.'],
+    ['split_to_multimap(string, entryDelimiter, keyValueDelimiter)', 'map(varchar, array(varchar))', 'Splits `string` into a map, keeping every value of repeated keys.'],
+    ['starts_with(string, substring)', 'boolean', 'Whether `string` starts with `substring`.'],
+    ['strpos(string, substring[, instance])', 'bigint', 'Position of the `instance`-th occurrence of `substring`, starting at 1, or 0 when not found.'],
+    ['strrpos(string, substring)', 'bigint', 'Position of the last occurrence of `substring`.'],
+    ['substr(string, start[, length])', 'varchar', 'Substring from `start` (starting at 1, negative counts from the end). Alias of `substring`.'],
+    ['substring(string, start[, length])', 'varchar', 'Substring from `start` (starting at 1, negative counts from the end).'],
+    ['translate(source, from, to)', 'varchar', 'Replaces each character of `from` found in `source` with the character at the same position of `to`.'],
+    ['word_stem(word[, lang])', 'varchar', 'Stem of an English (or `lang`) word.'],
+    ['normalize(string[, form])', 'varchar', 'Unicode normalized form (NFC by default) of `string`.'],
+    ['to_utf8(string)', 'varbinary', 'Encodes `string` as UTF-8.'],
+    ['from_utf8(binary[, replace])', 'varchar', 'Decodes UTF-8 `binary`, replacing invalid sequences.'],
+    ['soundex(string)', 'varchar', 'Soundex code of `string`.'],
+  ],
+  'Regular expression': [
+    ['regexp_count(string, pattern)', 'bigint', 'Number of matches of `pattern` in `string`.'],
+    ['regexp_extract(string, pattern[, group])', 'varchar', 'First match of `pattern` (or of its capturing `group`) in `string`.'],
+    ['regexp_extract_all(string, pattern[, group])', 'array(varchar)', 'Every match of `pattern` (or of its capturing `group`) in `string`.'],
+    ['regexp_like(string, pattern)', 'boolean', 'Whether `string` contains a match of `pattern`.'],
+    ['regexp_position(string, pattern[, start[, occurrence]])', 'integer', 'Position of a match of `pattern`, or -1 when not found.'],
+    ['regexp_replace(string, pattern[, replacement])', 'varchar', 'Replaces every match of `pattern` with `replacement`, which can reference groups as `$1`. A lambda `(x) -> ...` can compute replacements.'],
+    ['regexp_split(string, pattern)', 'array(varchar)', 'Splits `string` on matches of `pattern`.'],
+  ],
+  'Date and time': [
+    ['current_date', 'date', 'Current date at the start of the query.'],
+    ['current_time', 'time with time zone', 'Current time at the start of the query.'],
+    ['current_timestamp', 'timestamp with time zone', 'Current timestamp at the start of the query.'],
+    ['current_timezone()', 'varchar', 'Time zone of the session.'],
+    ['localtime', 'time', 'Current time at the start of the query, without time zone.'],
+    ['localtimestamp', 'timestamp', 'Current timestamp at the start of the query, without time zone.'],
+    ['now()', 'timestamp with time zone', 'Alias of `current_timestamp`.'],
+    ['date(x)', 'date', 'Casts `x` to a date. Same as `CAST(x AS date)`.'],
+    ['date_add(unit, value, timestamp)', 'same as timestamp', 'Adds `value` `unit`s (\'day\', \'hour\', \'month\', ...) to `timestamp`. Use a negative value to subtract.'],
+    ['date_diff(unit, timestamp1, timestamp2)', 'bigint', 'Number of `unit`s from `timestamp1` to `timestamp2`.'],
+    ['date_format(timestamp, format)', 'varchar', 'Formats `timestamp` with a MySQL format string, e.g. \'%Y-%m-%d %H:%i:%s\'.'],
+    ['date_parse(string, format)', 'timestamp', 'Parses `string` with a MySQL format string, e.g. \'%Y-%m-%d\'.'],
+    ['date_trunc(unit, x)', 'same as x', 'Truncates `x` to the `unit` (\'minute\', \'hour\', \'day\', \'week\', \'month\', \'quarter\', \'year\').'],
+    ['day(x)', 'bigint', 'Day of month of `x`.'],
+    ['day_of_month(x)', 'bigint', 'Day of month of `x`.'],
+    ['day_of_week(x)', 'bigint', 'ISO day of week of `x`, from 1 (Monday) to 7 (Sunday).'],
+    ['day_of_year(x)', 'bigint', 'Day of year of `x`, from 1 to 366.'],
+    ['dow(x)', 'bigint', 'Alias of `day_of_week`.'],
+    ['doy(x)', 'bigint', 'Alias of `day_of_year`.'],
+    ['extract(field FROM x)', 'bigint', 'Extracts `field` (YEAR, MONTH, DAY, HOUR, ...) from `x`.'],
+    ['format_datetime(timestamp, format)', 'varchar', 'Formats `timestamp` with a Joda-Time pattern, e.g. \'yyyy-MM-dd\'.'],
+    ['from_iso8601_date(string)', 'date', 'Parses an ISO 8601 date.'],
+    ['from_iso8601_timestamp(string)', 'timestamp with time zone', 'Parses an ISO 8601 timestamp.'],
+    ['from_unixtime(unixtime[, zone])', 'timestamp with time zone', 'Converts a UNIX timestamp in seconds to a timestamp.'],
+    ['from_unixtime_nanos(unixtime)', 'timestamp with time zone', 'Converts a UNIX timestamp in nanoseconds to a timestamp.'],
+    ['hour(x)', 'bigint', 'Hour of day of `x`, from 0 to 23.'],
+    ['human_readable_seconds(double)', 'varchar', 'Formats a number of seconds like \'1 hour, 2 minutes, 3 seconds\'.'],
+    ['last_day_of_month(x)', 'date', 'Last day of the month of `x`.'],
+    ['millisecond(x)', 'bigint', 'Millisecond of second of `x`.'],
+    ['minute(x)', 'bigint', 'Minute of hour of `x`.'],
+    ['month(x)', 'bigint', 'Month of year of `x`, from 1 to 12.'],
+    ['parse_datetime(string, format)', 'timestamp with time zone', 'Parses `string` with a Joda-Time pattern.'],
+    ['parse_duration(string)', 'interval day to second', 'Parses a duration like \'3.5m\' or \'42ms\'.'],
+    ['quarter(x)', 'bigint', 'Quarter of year of `x`, from 1 to 4.'],
+    ['second(x)', 'bigint', 'Second of minute of `x`.'],
+    ['timezone_hour(timestamp)', 'bigint', 'Hour of the time zone offset of `timestamp`.'],
+    ['timezone_minute(timestamp)', 'bigint', 'Minute of the time zone offset of `timestamp`.'],
+    ['to_iso8601(x)', 'varchar', 'Formats `x` as ISO 8601.'],
+    ['to_milliseconds(interval)', 'bigint', 'Number of milliseconds in a day to second interval.'],
+    ['to_unixtime(timestamp)', 'double', 'Converts `timestamp` to a UNIX timestamp in seconds.'],
+    ['week(x)', 'bigint', 'ISO week of year of `x`, from 1 to 53.'],
+    ['week_of_year(x)', 'bigint', 'Alias of `week`.'],
+    ['with_timezone(timestamp, zone)', 'timestamp with time zone', 'Gives a timestamp without time zone the time zone `zone`.'],
+    ['at_timezone(timestamp, zone)', 'timestamp with time zone', 'Converts `timestamp` to the time zone `zone`. Same as `timestamp AT TIME ZONE zone`.'],
+    ['year(x)', 'bigint', 'Year of `x`.'],
+    ['year_of_week(x)', 'bigint', 'ISO week-numbering year of `x`.'],
+    ['yow(x)', 'bigint', 'Alias of `year_of_week`.'],
+  ],
+  'JSON': [
+    ['is_json_scalar(json)', 'boolean', 'Whether `json` is a scalar (number, string, true, false or null).'],
+    ['json_array_contains(json, value)', 'boolean', 'Whether the JSON array contains `value`.'],
+    ['json_array_get(json_array, index)', 'json', 'Element `index` (starting at 0, negative counts from the end) of a JSON array.'],
+    ['json_array_length(json)', 'bigint', 'Length of a JSON array.'],
+    ['json_extract(json, json_path)', 'json', 'Value at `json_path` (like \'$.store.book[0]\'), as JSON.'],
+    ['json_extract_scalar(json, json_path)', 'varchar', 'Scalar value at `json_path`, as a string.'],
+    ['json_format(json)', 'varchar', 'Serializes `json` to text.'],
+    ['json_parse(string)', 'json', 'Parses `string` as JSON.'],
+    ['json_size(json, json_path)', 'bigint', 'Size of the array or object at `json_path`.'],
+    ['json_exists(json_input, json_path)', 'boolean', 'SQL/JSON: whether `json_path` matches anything in the input.'],
+    ['json_query(json_input, json_path)', 'varchar', 'SQL/JSON: JSON fragment at `json_path`.'],
+    ['json_value(json_input, json_path)', 'varchar', 'SQL/JSON: scalar at `json_path`.'],
+    ['json_array(value, ...)', 'varchar', 'SQL/JSON: builds a JSON array.'],
+    ['json_object(key VALUE value, ...)', 'varchar', 'SQL/JSON: builds a JSON object.'],
+  ],
+  'Array': [
+    ['all_match(array, function)', 'boolean', 'Whether every element matches the lambda, e.g. `all_match(a, x -> x > 0)`.'],
+    ['any_match(array, function)', 'boolean', 'Whether any element matches the lambda.'],
+    ['array_distinct(x)', 'array', 'Removes duplicate values.'],
+    ['array_except(x, y)', 'array', 'Elements of `x` not in `y`, without duplicates.'],
+    ['array_intersect(x, y)', 'array', 'Elements in both `x` and `y`, without duplicates.'],
+    ['array_join(x, delimiter[, null_replacement])', 'varchar', 'Joins the elements with `delimiter`.'],
+    ['array_max(x)', 'same as element', 'Largest element.'],
+    ['array_min(x)', 'same as element', 'Smallest element.'],
+    ['array_position(x, element)', 'bigint', 'Position (starting at 1) of the first occurrence of `element`, or 0.'],
+    ['array_remove(x, element)', 'array', 'Removes every `element` from `x`.'],
+    ['array_sort(x[, function])', 'array', 'Sorts `x`, optionally with a comparator lambda `(a, b) -> ...` returning -1, 0 or 1.'],
+    ['array_union(x, y)', 'array', 'Elements of `x` and `y`, without duplicates.'],
+    ['arrays_overlap(x, y)', 'boolean', 'Whether `x` and `y` have a non-null element in common.'],
+    ['cardinality(x)', 'bigint', 'Number of elements of an array or entries of a map.'],
+    ['combinations(array, n)', 'array(array)', 'Every combination of `n` elements.'],
+    ['concat(array1, ..., arrayN)', 'array', 'Concatenates arrays.'],
+    ['contains(x, element)', 'boolean', 'Whether the array contains `element`.'],
+    ['contains_sequence(x, seq)', 'boolean', 'Whether `x` contains every element of `seq` in the same order, consecutively.'],
+    ['element_at(array, index)', 'same as element', 'Element `index` (starting at 1, negative counts from the end), or NULL when out of range.'],
+    ['filter(array, function)', 'array', 'Elements for which the lambda returns true, e.g. `filter(a, x -> x IS NOT NULL)`.'],
+    ['flatten(x)', 'array', 'Flattens an array of arrays.'],
+    ['ngrams(array, n)', 'array(array)', '`n`-grams (sub-sequences of `n` adjacent elements).'],
+    ['none_match(array, function)', 'boolean', 'Whether no element matches the lambda.'],
+    ['reduce(array, initialState, inputFunction, outputFunction)', 'same as output', 'Reduces the array to a single value, e.g. `reduce(a, 0, (s, x) -> s + x, s -> s)`.'],
+    ['repeat(element, count)', 'array', 'Array with `element` repeated `count` times.'],
+    ['sequence(start, stop[, step])', 'array', 'Sequence from `start` to `stop`, of numbers, dates or timestamps.'],
+    ['shuffle(x)', 'array', 'Randomly shuffles `x`.'],
+    ['slice(x, start, length)', 'array', 'Sub-array of `length` elements from `start` (starting at 1).'],
+    ['transform(array, function)', 'array', 'Applies the lambda to every element, e.g. `transform(a, x -> x * 2)`.'],
+    ['trim_array(x, n)', 'array', 'Removes the last `n` elements.'],
+    ['zip(array1, array2[, ...])', 'array(row)', 'Merges arrays element-wise into an array of rows.'],
+    ['zip_with(array1, array2, function)', 'array', 'Merges two arrays element-wise with the lambda `(x, y) -> ...`.'],
+  ],
+  'Map': [
+    ['element_at(map, key)', 'same as value', 'Value of `key`, or NULL when missing.'],
+    ['map()', 'map', 'Empty map. `map(array_of_keys, array_of_values)` builds one from two arrays.'],
+    ['map_from_entries(array(row(k, v)))', 'map', 'Map from an array of key/value entries.'],
+    ['multimap_from_entries(array(row(k, v)))', 'map(k, array(v))', 'Map from entries, keeping every value of repeated keys.'],
+    ['map_entries(x)', 'array(row(k, v))', 'Entries of the map.'],
+    ['map_concat(map1, map2, ..., mapN)', 'map', 'Union of the maps; later maps win on repeated keys.'],
+    ['map_filter(map, function)', 'map', 'Entries for which the lambda `(k, v) -> ...` returns true.'],
+    ['map_keys(x)', 'array', 'Keys of the map.'],
+    ['map_values(x)', 'array', 'Values of the map.'],
+    ['map_zip_with(map1, map2, function)', 'map', 'Merges two maps with the lambda `(k, v1, v2) -> ...`.'],
+    ['transform_keys(map, function)', 'map', 'Applies the lambda `(k, v) -> ...` to every key.'],
+    ['transform_values(map, function)', 'map', 'Applies the lambda `(k, v) -> ...` to every value.'],
+  ],
+  'Aggregate': [
+    ['any_value(x)', 'same as x', 'An arbitrary non-null value of `x`.'],
+    ['arbitrary(x)', 'same as x', 'An arbitrary non-null value of `x`.'],
+    ['array_agg(x)', 'array', 'Array of the input values. Accepts `ORDER BY`: `array_agg(x ORDER BY y)`.'],
+    ['avg(x)', 'double', 'Average of the values.'],
+    ['bool_and(boolean)', 'boolean', 'Whether every value is true. Alias `every`.'],
+    ['bool_or(boolean)', 'boolean', 'Whether any value is true.'],
+    ['checksum(x)', 'varbinary', 'Order-insensitive checksum of the values.'],
+    ['count(*)', 'bigint', 'Number of rows. `count(x)` counts non-null values.'],
+    ['count_if(x)', 'bigint', 'Number of true values.'],
+    ['every(boolean)', 'boolean', 'Whether every value is true.'],
+    ['geometric_mean(x)', 'double', 'Geometric mean of the values.'],
+    ['histogram(x)', 'map(K, bigint)', 'Number of occurrences of each value.'],
+    ['listagg(x, separator) WITHIN GROUP (ORDER BY y)', 'varchar', 'Concatenates the values with `separator`.'],
+    ['map_agg(key, value)', 'map', 'Map of the key/value pairs.'],
+    ['map_union(x)', 'map', 'Union of the input maps.'],
+    ['max(x[, n])', 'same as x', 'Largest value, or the `n` largest values as an array.'],
+    ['max_by(x, y[, n])', 'same as x', 'Value of `x` on the row with the largest `y`.'],
+    ['min(x[, n])', 'same as x', 'Smallest value, or the `n` smallest values as an array.'],
+    ['min_by(x, y[, n])', 'same as x', 'Value of `x` on the row with the smallest `y`.'],
+    ['multimap_agg(key, value)', 'map(K, array(V))', 'Map of every value of each key.'],
+    ['reduce_agg(inputValue, initialState, inputFunction, combineFunction)', 'same as state', 'Reduces the values with lambdas.'],
+    ['set_agg(x)', 'array', 'Array of the distinct values.'],
+    ['set_union(x)', 'array', 'Distinct elements of the input arrays.'],
+    ['sum(x)', 'same as x', 'Sum of the values.'],
+    ['bitwise_and_agg(x)', 'bigint', 'Bitwise AND of the values.'],
+    ['bitwise_or_agg(x)', 'bigint', 'Bitwise OR of the values.'],
+    ['corr(y, x)', 'double', 'Correlation coefficient.'],
+    ['covar_pop(y, x)', 'double', 'Population covariance.'],
+    ['covar_samp(y, x)', 'double', 'Sample covariance.'],
+    ['kurtosis(x)', 'double', 'Excess kurtosis.'],
+    ['regr_intercept(y, x)', 'double', 'Linear regression intercept.'],
+    ['regr_slope(y, x)', 'double', 'Linear regression slope.'],
+    ['skewness(x)', 'double', 'Skewness.'],
+    ['stddev(x)', 'double', 'Sample standard deviation. Alias of `stddev_samp`.'],
+    ['stddev_pop(x)', 'double', 'Population standard deviation.'],
+    ['stddev_samp(x)', 'double', 'Sample standard deviation.'],
+    ['variance(x)', 'double', 'Sample variance. Alias of `var_samp`.'],
+    ['var_pop(x)', 'double', 'Population variance.'],
+    ['var_samp(x)', 'double', 'Sample variance.'],
+  ],
+  'Approximate aggregate': [
+    ['approx_distinct(x[, e])', 'bigint', 'Approximate number of distinct values, with a standard error of 2.3% (or `e`).'],
+    ['approx_most_frequent(buckets, value, capacity)', 'map(V, bigint)', 'Approximate top `buckets` most frequent values with their counts.'],
+    ['approx_percentile(x, percentage)', 'same as x', 'Approximate percentile of the values, `percentage` between 0 and 1. Accepts an array of percentages and an optional weight.'],
+    ['approx_set(x)', 'hyperloglog', 'HyperLogLog sketch of the values.'],
+    ['cardinality(hll)', 'bigint', 'Cardinality estimated by a HyperLogLog sketch.'],
+    ['empty_approx_set()', 'hyperloglog', 'Empty HyperLogLog sketch.'],
+    ['merge(sketch)', 'same as sketch', 'Merges HyperLogLog, qdigest or tdigest sketches.'],
+    ['numeric_histogram(buckets, value[, weight])', 'map(double, double)', 'Approximate histogram with up to `buckets` buckets.'],
+    ['qdigest_agg(x[, w[, accuracy]])', 'qdigest', 'Quantile digest of the values.'],
+    ['tdigest_agg(x[, w])', 'tdigest', 'T-digest of the values.'],
+    ['value_at_quantile(digest, quantile)', 'same as values', 'Approximate value at `quantile` of a qdigest or tdigest.'],
+    ['values_at_quantiles(digest, quantiles)', 'array', 'Approximate values at `quantiles` of a qdigest or tdigest.'],
+    ['make_set_digest(x)', 'setdigest', 'Set digest of the values.'],
+    ['jaccard_index(x, y)', 'double', 'Estimated Jaccard index of two set digests.'],
+  ],
+  'Window': [
+    ['cume_dist()', 'double', 'Cumulative distribution of the row in its partition.'],
+    ['dense_rank()', 'bigint', 'Rank of the row without gaps.'],
+    ['ntile(n)', 'bigint', 'Bucket number from 1 to `n` of the row.'],
+    ['percent_rank()', 'double', 'Percentage ranking of the row.'],
+    ['rank()', 'bigint', 'Rank of the row, with gaps for ties.'],
+    ['row_number()', 'bigint', 'Sequential number of the row in its partition, starting at 1.'],
+    ['first_value(x)', 'same as x', 'First value of the window frame.'],
+    ['last_value(x)', 'same as x', 'Last value of the window frame.'],
+    ['nth_value(x, offset)', 'same as x', 'Value at `offset` (starting at 1) of the window frame.'],
+    ['lead(x[, offset[, default_value]])', 'same as x', 'Value `offset` rows after the current row.'],
+    ['lag(x[, offset[, default_value]])', 'same as x', 'Value `offset` rows before the current row.'],
+  ],
+  'Binary and encoding': [
+    ['crc32(binary)', 'bigint', 'CRC-32 of `binary`.'],
+    ['from_base64(string)', 'varbinary', 'Decodes base64.'],
+    ['to_base64(binary)', 'varchar', 'Encodes as base64.'],
+    ['from_hex(string)', 'varbinary', 'Decodes hex.'],
+    ['to_hex(binary)', 'varchar', 'Encodes as hex.'],
+    ['md5(binary)', 'varbinary', 'MD5 hash, e.g. `to_hex(md5(to_utf8(s)))`.'],
+    ['sha1(binary)', 'varbinary', 'SHA-1 hash.'],
+    ['sha256(binary)', 'varbinary', 'SHA-256 hash.'],
+    ['sha512(binary)', 'varbinary', 'SHA-512 hash.'],
+    ['xxhash64(binary)', 'varbinary', 'xxHash64 hash.'],
+    ['murmur3(binary)', 'varbinary', '128-bit MurmurHash3 hash.'],
+    ['hmac_sha256(binary, key)', 'varbinary', 'HMAC with SHA-256 of `binary` with `key`.'],
+    ['url_decode(value)', 'varchar', 'Unescapes a URL-encoded value.'],
+    ['url_encode(value)', 'varchar', 'URL-encodes a value.'],
+    ['url_extract_host(url)', 'varchar', 'Host of `url`.'],
+    ['url_extract_parameter(url, name)', 'varchar', 'Value of the query string parameter `name` of `url`.'],
+    ['url_extract_path(url)', 'varchar', 'Path of `url`.'],
+    ['url_extract_protocol(url)', 'varchar', 'Protocol of `url`.'],
+    ['url_extract_query(url)', 'varchar', 'Query string of `url`.'],
+    ['uuid()', 'uuid', 'Random UUID.'],
+    ['bitwise_and(x, y)', 'bigint', 'Bitwise AND.'],
+    ['bitwise_or(x, y)', 'bigint', 'Bitwise OR.'],
+    ['bitwise_xor(x, y)', 'bigint', 'Bitwise XOR.'],
+    ['bit_count(x, bits)', 'bigint', 'Number of bits set in `x`.'],
+  ],
+  'Geospatial': [
+    ['ST_Point(x, y)', 'Point', 'Point geometry from coordinates.'],
+    ['ST_GeometryFromText(wkt)', 'Geometry', 'Geometry from Well-Known Text.'],
+    ['ST_GeomFromBinary(wkb)', 'Geometry', 'Geometry from Well-Known Binary.'],
+    ['ST_AsText(geometry)', 'varchar', 'Well-Known Text of the geometry.'],
+    ['ST_AsBinary(geometry)', 'varbinary', 'Well-Known Binary of the geometry.'],
+    ['ST_Polygon(wkt)', 'Polygon', 'Polygon from Well-Known Text.'],
+    ['ST_LineString(array(Point))', 'LineString', 'Line string from an array of points.'],
+    ['ST_Contains(geometry1, geometry2)', 'boolean', 'Whether `geometry2` is inside `geometry1`.'],
+    ['ST_Within(geometry1, geometry2)', 'boolean', 'Whether `geometry1` is inside `geometry2`.'],
+    ['ST_Intersects(geometry1, geometry2)', 'boolean', 'Whether the geometries share any point.'],
+    ['ST_Overlaps(geometry1, geometry2)', 'boolean', 'Whether the geometries overlap.'],
+    ['ST_Touches(geometry1, geometry2)', 'boolean', 'Whether the geometries touch without overlapping.'],
+    ['ST_Crosses(geometry1, geometry2)', 'boolean', 'Whether the geometries cross.'],
+    ['ST_Disjoint(geometry1, geometry2)', 'boolean', 'Whether the geometries share no point.'],
+    ['ST_Equals(geometry1, geometry2)', 'boolean', 'Whether the geometries are equal.'],
+    ['ST_Distance(geometry1, geometry2)', 'double', 'Minimum cartesian distance between the geometries.'],
+    ['great_circle_distance(lat1, lon1, lat2, lon2)', 'double', 'Great circle distance in kilometers between two points on Earth.'],
+    ['ST_Area(geometry)', 'double', 'Area of the geometry.'],
+    ['ST_Length(geometry)', 'double', 'Length of a line string.'],
+    ['ST_Centroid(geometry)', 'Point', 'Centroid of the geometry.'],
+    ['ST_Buffer(geometry, distance)', 'Geometry', 'Geometry within `distance` of the input.'],
+    ['ST_Envelope(geometry)', 'Geometry', 'Bounding rectangle of the geometry.'],
+    ['ST_Intersection(geometry1, geometry2)', 'Geometry', 'Intersection of the geometries.'],
+    ['ST_Union(geometry1, geometry2)', 'Geometry', 'Union of the geometries.'],
+    ['ST_Difference(geometry1, geometry2)', 'Geometry', 'Points of `geometry1` not in `geometry2`.'],
+    ['ST_X(point)', 'double', 'X coordinate of the point.'],
+    ['ST_Y(point)', 'double', 'Y coordinate of the point.'],
+    ['ST_IsValid(geometry)', 'boolean', 'Whether the geometry is valid.'],
+    ['ST_GeometryType(geometry)', 'varchar', 'Type of the geometry.'],
+    ['to_spherical_geography(geometry)', 'SphericalGeography', 'Converts a geometry to a spherical geography.'],
+    ['geometry_to_bing_tiles(geometry, zoom_level)', 'array(BingTile)', 'Bing tiles covering the geometry.'],
+    ['bing_tile_at(latitude, longitude, zoom_level)', 'BingTile', 'Bing tile containing the point.'],
+    ['from_geojson_geometry(string)', 'Geometry', 'Geometry from a GeoJSON geometry.'],
+    ['to_geojson_geometry(geometry)', 'varchar', 'GeoJSON of the geometry.'],
+  ],
+  'IP address': [
+    ['contains(network, address)', 'boolean', 'Whether the CIDR `network` contains `address`, e.g. `contains(\'10.0.0.0/8\', IPADDRESS \'10.1.2.3\')`.'],
+    ['ip_prefix(ip_address, prefix_bits)', 'ipprefix', 'IP prefix of `prefix_bits` bits of an address.'],
+    ['ip_subnet_min(ip_prefix)', 'ipaddress', 'Smallest address of a prefix.'],
+    ['ip_subnet_max(ip_prefix)', 'ipaddress', 'Largest address of a prefix.'],
+    ['ip_subnet_range(ip_prefix)', 'array(ipaddress)', 'Smallest and largest address of a prefix.'],
+    ['is_subnet_of(ip_prefix, ip_address)', 'boolean', 'Whether the address is in the prefix.'],
+  ],
+};
+
+/**
+ * Athena specific statements: [statement, syntax, description]
+ */
+const STATEMENTS: [string, string, string][] = [
+  ['MSCK REPAIR TABLE', 'MSCK REPAIR TABLE table_name', 'Adds the Hive-style partitions (`key=value` folders) found in the table location to the catalog.'],
+  ['UNLOAD', 'UNLOAD (SELECT ...)\nTO \'s3://bucket/prefix/\'\nWITH (format = \'PARQUET\', compression = \'SNAPPY\', partitioned_by = ARRAY[\'col\'])', 'Writes the query results to S3 in `PARQUET`, `ORC`, `AVRO`, `JSON` or `TEXTFILE` format, without creating a table.'],
+  ['CREATE TABLE AS', 'CREATE TABLE table_name\nWITH (\n  format = \'PARQUET\',\n  external_location = \'s3://bucket/prefix/\',\n  partitioned_by = ARRAY[\'col\'],\n  bucketed_by = ARRAY[\'col\'],\n  bucket_count = 10\n)\nAS SELECT ...', 'Creates a table from the results of a query (CTAS). Use `table_type = \'ICEBERG\'` and `is_external = false` for Iceberg tables.'],
+  ['CREATE EXTERNAL TABLE', 'CREATE EXTERNAL TABLE [IF NOT EXISTS] table_name (\n  col_name data_type [COMMENT col_comment], ...\n)\n[PARTITIONED BY (col_name data_type, ...)]\n[ROW FORMAT SERDE \'serde\' [WITH SERDEPROPERTIES (...)]]\n[STORED AS PARQUET | ORC | TEXTFILE | JSON | AVRO]\nLOCATION \'s3://bucket/prefix/\'\n[TBLPROPERTIES (\'property\' = \'value\', ...)]', 'Registers data stored in S3 as a table.'],
+  ['OPTIMIZE', 'OPTIMIZE table_name REWRITE DATA USING BIN_PACK\n[WHERE predicate]', 'Compacts the data files of an Iceberg table.'],
+  ['VACUUM', 'VACUUM table_name', 'Expires old snapshots and removes orphan files of an Iceberg table, following its `vacuum_*` table properties.'],
+  ['MERGE INTO', 'MERGE INTO target_table t USING source s ON t.id = s.id\nWHEN MATCHED THEN UPDATE SET ...\nWHEN NOT MATCHED THEN INSERT (...) VALUES (...)', 'Updates, deletes and inserts rows of an Iceberg table from a source.'],
+  ['SHOW PARTITIONS', 'SHOW PARTITIONS table_name', 'Lists the partitions of a table.'],
+  ['SHOW CREATE TABLE', 'SHOW CREATE TABLE table_name', 'Shows the DDL that creates the table.'],
+  ['SHOW CREATE VIEW', 'SHOW CREATE VIEW view_name', 'Shows the DDL that creates the view.'],
+  ['SHOW TBLPROPERTIES', 'SHOW TBLPROPERTIES table_name [(\'property\')]', 'Lists the table properties.'],
+  ['SHOW COLUMNS', 'SHOW COLUMNS {FROM | IN} table_name', 'Lists the columns of a table.'],
+  ['ALTER TABLE ADD PARTITION', 'ALTER TABLE table_name ADD [IF NOT EXISTS]\nPARTITION (key = \'value\') [LOCATION \'s3://bucket/prefix/\']', 'Registers partitions in the catalog.'],
+  ['ALTER TABLE DROP PARTITION', 'ALTER TABLE table_name DROP [IF EXISTS] PARTITION (key = \'value\')', 'Removes partitions from the catalog, keeping the data.'],
+  ['ALTER TABLE SET TBLPROPERTIES', 'ALTER TABLE table_name SET TBLPROPERTIES (\'property\' = \'value\')', 'Sets table properties, e.g. partition projection settings.'],
+  ['PREPARE', 'PREPARE statement_name FROM statement', 'Creates a prepared statement with `?` parameters.'],
+  ['EXECUTE', 'EXECUTE statement_name [USING value1, value2, ...]', 'Runs a prepared statement.'],
+  ['DEALLOCATE PREPARE', 'DEALLOCATE PREPARE statement_name', 'Removes a prepared statement.'],
+  ['EXPLAIN ANALYZE', 'EXPLAIN ANALYZE statement', 'Runs the statement and shows its distributed plan with the cost of each operation.'],
+  ['FOR TIMESTAMP AS OF', 'SELECT * FROM table_name FOR TIMESTAMP AS OF (current_timestamp - interval \'1\' day)', 'Time travel: reads an Iceberg table as it was at a point in time.'],
+  ['FOR VERSION AS OF', 'SELECT * FROM table_name FOR VERSION AS OF snapshot_id', 'Time travel: reads an Iceberg table as it was at a snapshot.'],
+];
+
+const markdown = (value: string) => ({ kind: <'markdown'>'markdown', value });
+
+let completions: { [word: string]: NSDatabase.IStaticCompletion } | null = null;
+
+/**
+ * Keywords, data types, functions and statements of Athena's SQL dialect, built once.
+ */
+export const getStaticCompletions = () => {
+  if (completions) return completions;
+  completions = {};
+
+  KEYWORDS.forEach((keyword) => {
+    completions[keyword] = {
+      label: keyword,
+      detail: keyword,
+      filterText: keyword,
+      sortText: `${COMMON_KEYWORDS.has(keyword) ? '2' : '3'}:${keyword}`,
+      documentation: markdown(`\`\`\`yaml\nKEYWORD: ${keyword}\n\`\`\``),
+    };
+  });
+
+  DATA_TYPES.forEach(([type, description]) => {
+    completions[type] = {
+      label: type,
+      detail: `${type} data type`,
+      filterText: type,
+      sortText: `4:${type}`,
+      documentation: markdown(`\`\`\`yaml\nTYPE: ${type}\n\`\`\`\n${description}`),
+    };
+  });
+
+  Object.keys(FUNCTIONS).forEach((category) => {
+    FUNCTIONS[category].forEach(([signature, returnType, description]) => {
+      const name = signature.replace(/\(.*$/s, '').toLowerCase();
+      const documentation = `\`\`\`sql\n${signature} → ${returnType}\n\`\`\`\n${description}\n\n_${category} function_`;
+      const existing = completions[name];
+
+      if (existing && existing.detail.indexOf('(') !== -1) {
+        // overloads, like `contains` on arrays and on IP networks, share one entry
+        existing.documentation = markdown(`${existing.documentation.value}\n\n---\n\n${documentation}`);
+        return;
+      }
+      completions[name] = {
+        label: name,
+        detail: `${signature} → ${returnType}`,
+        filterText: name,
+        sortText: `5:${name}`,
+        documentation: markdown(documentation),
+      };
+    });
+  });
+
+  STATEMENTS.forEach(([statement, syntax, description]) => {
+    completions[statement] = {
+      label: statement,
+      detail: `${statement} (Athena)`,
+      filterText: statement,
+      sortText: `1:${statement}`,
+      documentation: markdown(`\`\`\`sql\n${syntax}\n\`\`\`\n${description}`),
+    };
+  });
+
+  return completions;
+};
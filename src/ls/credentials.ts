@@ -0,0 +1,67 @@
+import {
+  ChainableTemporaryCredentials,
+  CredentialProviderChain,
+  Credentials,
+  SharedIniFileCredentials,
+  SsoCredentials,
+} from 'aws-sdk';
+import { IConnection } from '@sqltools/types';
+
+export const CONNECTION_METHODS = {
+  PROFILE: 'Profile',
+  SESSION_CREDENTIALS: 'Session Credentials',
+  ASSUME_ROLE: 'Assume Role',
+  SSO_PROFILE: 'SSO Profile',
+  DEFAULT_CHAIN: 'Default Provider Chain',
+};
+
+type TokenCodeFn = (serialNumber: string, callback: (err?: Error, token?: string) => void) => void;
+
+/**
+ * Builds the credentials for the connection's `connectionMethod`. Temporary credentials
+ * (assumed roles, SSO, instance or container roles) refresh themselves before they expire,
+ * asking for a new MFA code through `promptMfaToken` when the role requires one.
+ */
+export const createCredentials = async (
+  connection: IConnection,
+  promptMfaToken: (serialNumber: string) => Promise<string | undefined>,
+): Promise<Credentials> => {
+  const tokenCodeFn: TokenCodeFn = (serialNumber, callback) => {
+    promptMfaToken(serialNumber).then(
+      (token) => token ? callback(undefined, token) : callback(new Error('An MFA code is required to connect.')),
+      (error) => callback(error),
+    );
+  };
+
+  switch (connection.connectionMethod || CONNECTION_METHODS.PROFILE) {
+    case CONNECTION_METHODS.PROFILE:
+      return new SharedIniFileCredentials({ profile: connection.profile, tokenCodeFn });
+    case CONNECTION_METHODS.SESSION_CREDENTIALS:
+      return new Credentials({
+        accessKeyId: connection.accessKeyId,
+        secretAccessKey: connection.secretAccessKey,
+        sessionToken: connection.sessionToken,
+      });
+    case CONNECTION_METHODS.SSO_PROFILE:
+      return new SsoCredentials({ profile: connection.profile });
+    case CONNECTION_METHODS.DEFAULT_CHAIN:
+      return new CredentialProviderChain().resolvePromise();
+    case CONNECTION_METHODS.ASSUME_ROLE:
+      return new ChainableTemporaryCredentials({
+        params: {
+          RoleArn: connection.roleArn,
+          RoleSessionName: connection.roleSessionName || `sqltools-athena-${Date.now()}`,
+          ExternalId: connection.externalId || undefined,
+          SerialNumber: connection.mfaSerialNumber || undefined,
+          DurationSeconds: connection.sessionDuration || undefined,
+        },
+        masterCredentials: connection.profile
+          ? new SharedIniFileCredentials({ profile: connection.profile, tokenCodeFn })
+          : await new CredentialProviderChain().resolvePromise(),
+        stsConfig: { region: connection.region || 'us-east-1' },
+        tokenCodeFn,
+      });
+  }
+
+  throw new Error(`Unknown connection method "${connection.connectionMethod}".`);
+};
@@ -1,15 +1,112 @@
 import AbstractDriver from '@sqltools/base-driver';
-import { IConnectionDriver, MConnectionExplorer, NSDatabase, Arg0, ContextValue } from '@sqltools/types';
+import { IConnectionDriver, MConnectionExplorer, NSDatabase, Arg0, ContextValue, IQueryOptions } from '@sqltools/types';
 import queries from './queries';
+import MetadataCache, { DEFAULT_CATALOG } from './metadata';
+import { hiveQualifiedName, matchesGlob, matchesNameFilter, NameFilter, qualifiedName, splitIdentifier } from './identifiers';
+import { registerDriver, unregisterDriver } from './registry';
+import { BudgetExceededError, QueryCancelledError, QueryFailedError } from './errors';
+import { findTableReferences, isReadOnlyStatement, parseResultsDirective, parseUseStatement, parseWorkgroupDirective, splitStatements } from './statements';
+import { DEFAULT_PRICE_PER_TB, estimateCost, formatCost, parseBytes } from './budget';
+import { confirm, prompt, promptParameters } from './prompts';
+import { executedStatementName, findPlaceholders, isPrepare, toPositional, toSqlLiteral } from './parameters';
+import { parseValue } from './values';
+import { CsvRow, parseS3Uri, readCsvFromS3, readTextFromS3 } from './output';
+import AthenaClient, { DEFAULT_RETRY_OPTIONS, sleep } from './client';
+import { createCredentials } from './credentials';
+import { getStaticCompletions } from './completions';
+import { exportStatement, ExportOptions, ResultFileFormat, serializeResult } from './export';
+import { createTableStatement, CreateTableOptions, InferredTable, sampleTable } from './inference';
+import SparkSession, {
+  calculationCode,
+  DEFAULT_SPARK_IDLE_TIMEOUT,
+  DEFAULT_SPARK_MAX_CONCURRENT_DPUS,
+  isSparkWorkgroup,
+  parseCalculationResult,
+} from './spark';
+import { isIcebergTable, metadataTableQuery, optimizeStatement, timeTravelQuery, vacuumStatement } from './iceberg';
+import { ICEBERG_SNAPSHOT_CONTEXT, ICEBERG_TABLE_CONTEXT, NAMED_QUERY_CONTEXT } from '../constants';
 import { v4 as generateId } from 'uuid';
-import { Athena, AWSError, Credentials, SharedIniFileCredentials } from 'aws-sdk';
-import { PromiseResult } from 'aws-sdk/lib/request';
+import { Athena, S3 } from 'aws-sdk';
+import * as fs from 'fs';
+import * as path from 'path';
 import { GetQueryResultsInput, GetQueryResultsOutput } from 'aws-sdk/clients/athena';
 
-export default class AthenaDriver extends AbstractDriver<Athena, Athena.Types.ClientConfiguration> implements IConnectionDriver {
+const DEFAULT_MAX_RESULT_ROWS = 100000;
+
+/** the largest `MaxResults` of the Athena list APIs */
+const EXPLORER_PAGE_SIZE = 50;
+
+/** executions listed by the query history, the most `BatchGetQueryExecution` takes */
+const HISTORY_SIZE = 50;
+
+const DEFAULT_RESULT_REUSE_MAX_AGE = 60;
+
+/** bytes of a calculation's result, stdout and stderr files shown in its result */
+const MAX_CALCULATION_OUTPUT = 1024 * 1024;
+
+interface ExplorerFilter {
+  catalogs?: NameFilter;
+  databases?: NameFilter;
+  tables?: NameFilter;
+}
+
+interface ExplorerPage<T> {
+  items: T[];
+  nextToken?: string;
+  /** execution whose results are being paged */
+  queryExecutionId?: string;
+}
+
+type TableGroup = 'columns' | 'partitionKeys' | 'partitions' | 'properties' | IcebergGroup;
+
+/** groups of an Iceberg table node, read from its metadata tables */
+type IcebergGroup = 'snapshots' | 'history' | 'manifests' | 'icebergPartitions';
+
+/** groups of the explorer that list something other than catalog objects */
+type AthenaGroup = TableGroup | 'namedQueries' | 'workgroups' | 'workgroup';
+
+/** a group of the explorer, or the "Load more" group continuing one */
+type ExplorerGroup = NSDatabase.SearchableItem & {
+  nextToken?: string,
+  queryExecutionId?: string,
+  /** set on the groups of a table node and on the connection's own groups */
+  athenaGroup?: AthenaGroup,
+  tableName?: string,
+  workgroupName?: string,
+};
+
+type AthenaQueryOptions = IQueryOptions & {
+  /** set on the explorer's previews and row counts, which are run without confirming large scans */
+  explorerQuery?: boolean,
+};
+
+/** an item of the explorer without children, like a table property */
+const leafItem = (label: string, detail: string, iconId: string, schema: string = '', database: string = '') => ({
+  label, detail, iconId, type: ContextValue.NO_CHILD, childType: ContextValue.NO_CHILD, schema, database,
+});
+
+export default class AthenaDriver extends AbstractDriver<AthenaClient, Athena.Types.ClientConfiguration> implements IConnectionDriver {
 
   queries = queries
 
+  /** Executions still being polled, by `QueryExecutionId` */
+  private runningQueries = new Map<string, { requestId?: string, query: string, startedAt: Date }>();
+
+  private s3: S3;
+
+  private metadata = new MetadataCache(() => this.open(), (this.credentials.metadataCacheTTL ?? 300) * 1000);
+
+  /** catalog and database queries run in: the connection's defaults, changed by `USE` statements */
+  private context = this.defaultContext();
+
+  /** results of the last `query` call, kept so they can be saved to a file */
+  private lastResults: NSDatabase.IResult[] = [];
+
+  /** whether the connection's workgroup runs Spark calculations, looked up on the first query */
+  private sparkWorkgroup: Promise<boolean> | null = null;
+
+  private spark: SparkSession | null = null;
+
   /**
    * If you driver depends on node packages, list it below on `deps` prop.
    * It will be installed automatically on first use of your driver.
@@ -35,21 +132,44 @@ export default class AthenaDriver extends AbstractDriver<Athena, Athena.Types.Cl
       return this.connection;
     }
 
-    if (this.credentials.connectionMethod !== 'Profile')
-      var credentials = new Credentials({
-        accessKeyId: this.credentials.accessKeyId,
-        secretAccessKey: this.credentials.secretAccessKey,
-        sessionToken: this.credentials.sessionToken,
-      });
-    else
-      var credentials = new SharedIniFileCredentials({ profile: this.credentials.profile });
+    this.connection = this.connect().catch((error) => {
+      this.connection = null;
+      throw error;
+    });
 
-    this.connection = Promise.resolve(new Athena({
+    return this.connection;
+  }
+
+  private async connect() {
+    const credentials = await createCredentials(this.credentials, (serialNumber) => prompt({
+      prompt: `MFA code for ${serialNumber}`,
+      placeHolder: '123456',
+    }));
+
+    const client = new AthenaClient(
+      new Athena({
+        credentials: credentials,
+        region: this.credentials.region || 'us-east-1',
+        endpoint: this.credentials.endpoint || undefined,
+        // retries are handled by AthenaClient
+        maxRetries: 0,
+      }),
+      {
+        maxRetries: this.credentials.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries,
+        retryBaseDelay: this.credentials.retryBaseDelay ?? DEFAULT_RETRY_OPTIONS.retryBaseDelay,
+        maxPollInterval: this.credentials.maxPollInterval ?? DEFAULT_RETRY_OPTIONS.maxPollInterval,
+        maxQueryRetries: this.credentials.maxQueryRetries ?? DEFAULT_RETRY_OPTIONS.maxQueryRetries,
+      },
+    );
+    this.s3 = new S3({
       credentials: credentials,
       region: this.credentials.region || 'us-east-1',
-    }));
+      endpoint: this.credentials.s3Endpoint || undefined,
+      s3ForcePathStyle: !!this.credentials.s3Endpoint,
+    });
+    registerDriver(this);
 
-    return this.connection;
+    return client;
   }
     private formatBytes = (bytes: number, decimals: number = 2) => {
       if (!+bytes) return '0 Bytes'
@@ -63,53 +183,180 @@ export default class AthenaDriver extends AbstractDriver<Athena, Athena.Types.Cl
       return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`
   }
 
-  public async close() { }
+  public async close() {
+    if (!this.connection) return;
+
+    await this.cancelQuery();
+    await this.spark?.terminate();
+    unregisterDriver(this);
+    this.metadata.clear();
+    this.context = this.defaultContext();
+    this.sparkWorkgroup = null;
+    this.spark = null;
+    this.connection = null;
+  }
+
+  private defaultContext(): Athena.QueryExecutionContext {
+    return {
+      Catalog: this.credentials.catalog || undefined,
+      Database: this.credentials.database || undefined,
+    };
+  }
 
-  private sleep = (time: number) => new Promise((resolve) => setTimeout(() => resolve(true), time));
+  /**
+   * Makes `database` (of `catalog`, or of the current catalog) the default of the queries that follow.
+   */
+  public useDatabase(database: string, catalog?: string) {
+    this.context = { Catalog: catalog || this.context.Catalog, Database: database };
+    return this.context;
+  }
 
-  private rawQuery = async (query: string) => {
+  /**
+   * Stops the running executions started for `requestId` (or the single `queryExecutionId`),
+   * or every running execution when both are omitted.
+   */
+  public async cancelQuery(requestId?: string, queryExecutionId?: string) {
+    const db = await this.connection;
+    const executionIds = Array.from(this.runningQueries.entries())
+      .filter(([id, running]) => (requestId === undefined || running.requestId === requestId)
+        && (queryExecutionId === undefined || id === queryExecutionId))
+      .map(([id]) => id);
+
+    await Promise.all(executionIds.map((id) => db.request((athena) => athena.stopQueryExecution({ QueryExecutionId: id }))));
+    const calculations = this.spark && queryExecutionId === undefined ? await this.spark.cancel(requestId) : 0;
+
+    return executionIds.length + calculations;
+  }
+
+  public getRunningQueries() {
+    return Array.from(this.runningQueries.entries()).map(([queryExecutionId, running]) => ({
+      queryExecutionId,
+      ...running,
+    }));
+  }
+
+  /**
+   * Runs a query and waits for it to finish. Read-only queries failing for a transient reason are started
+   * again; other statements may have been partly applied, so their failure is reported.
+   */
+  private rawQuery = async (query: string, opt: IQueryOptions = {}, executionParameters?: string[]) => {
     const db = await this.open();
 
-    const queryExecution = await db.startQueryExecution({
-      QueryString: query,
-      WorkGroup: this.credentials.workgroup,
-      ResultConfiguration: {
-        OutputLocation: this.credentials.outputLocation
+    for (let attempt = 0; ; attempt++) {
+      const queryCheckExecution = await this.executeQuery(db, query, opt, executionParameters);
+      const execution = queryCheckExecution.QueryExecution;
+
+      if (execution.Status.State === 'FAILED') {
+        if (attempt < db.maxQueryRetries && AthenaClient.isTransientFailure(execution) && isReadOnlyStatement(query)) {
+          console.log(`Query ${execution.QueryExecutionId} failed with a transient error, retrying: ${execution.Status.StateChangeReason}`);
+          await sleep(db.backoff(attempt));
+          continue;
+        }
+        throw new QueryFailedError(execution);
       }
-    }).promise();
+
+      return queryCheckExecution;
+    }
+  }
+
+  private async executeQuery(db: AthenaClient, query: string, opt: IQueryOptions, executionParameters?: string[]) {
+    // an invalid limit must fail before the query starts, not while it runs unwatched
+    const maxBytesScanned = parseBytes(this.credentials.maxBytesScanned);
+    // one token for every retry, so that a retried call doesn't start the query twice
+    const clientRequestToken = generateId();
+    const queryExecution = await db.request((athena) => athena.startQueryExecution({
+      QueryString: query,
+      WorkGroup: parseWorkgroupDirective(query) || this.credentials.workgroup,
+      ResultConfiguration: this.resultConfiguration(),
+      ExecutionParameters: executionParameters?.length ? executionParameters : undefined,
+      QueryExecutionContext: this.context.Catalog || this.context.Database ? { ...this.context } : undefined,
+      ResultReuseConfiguration: this.credentials.resultReuse ? {
+        ResultReuseByAgeConfiguration: {
+          Enabled: true,
+          MaxAgeInMinutes: this.credentials.resultReuseMaxAge ?? DEFAULT_RESULT_REUSE_MAX_AGE,
+        },
+      } : undefined,
+      ClientRequestToken: clientRequestToken,
+    }));
 
     const endStatus = new Set(['FAILED', 'SUCCEEDED', 'CANCELLED']);
 
-    let queryCheckExecution;
+    let queryCheckExecution: Athena.GetQueryExecutionOutput;
+    let overBudget = false;
+    let poll = 0;
+
+    this.runningQueries.set(queryExecution.QueryExecutionId, { requestId: opt.requestId, query, startedAt: new Date() });
+    try {
+      do {
+        queryCheckExecution = await db.request((athena) => athena.getQueryExecution({
+          QueryExecutionId: queryExecution.QueryExecutionId,
+        }));
 
-    do {
-        queryCheckExecution = await db.getQueryExecution({ 
-            QueryExecutionId: queryExecution.QueryExecutionId,
-        }).promise();
-        
         console.log(
-            `Query ${queryExecution.QueryExecutionId} ` +
-            `is ${queryCheckExecution.QueryExecution.Status.State} ` +
-            `${queryCheckExecution.QueryExecution.Statistics?.TotalExecutionTimeInMillis} ms elapsed. ` +
-            `${this.formatBytes(queryCheckExecution.QueryExecution.Statistics?.DataScannedInBytes)} scanned`
+          `Query ${queryExecution.QueryExecutionId} ` +
+          `is ${queryCheckExecution.QueryExecution.Status.State} ` +
+          `${queryCheckExecution.QueryExecution.Statistics?.TotalExecutionTimeInMillis} ms elapsed. ` +
+          `${this.formatBytes(queryCheckExecution.QueryExecution.Statistics?.DataScannedInBytes)} scanned`
         );
 
-      await this.sleep(200);
-    } while (!endStatus.has(queryCheckExecution.QueryExecution.Status.State))
+        if (endStatus.has(queryCheckExecution.QueryExecution.Status.State)) break;
+
+        if (
+          maxBytesScanned && !overBudget
+          && (queryCheckExecution.QueryExecution.Statistics?.DataScannedInBytes || 0) > maxBytesScanned
+        ) {
+          overBudget = true;
+          await db.request((athena) => athena.stopQueryExecution({ QueryExecutionId: queryExecution.QueryExecutionId }));
+        }
+
+        await sleep(db.pollInterval(poll++));
+      } while (true)
+    } finally {
+      this.runningQueries.delete(queryExecution.QueryExecutionId);
+    }
 
-    if (queryCheckExecution.QueryExecution.Status.State === 'FAILED') {
-      throw new Error(queryCheckExecution.QueryExecution.Status.StateChangeReason)
+    if (queryCheckExecution.QueryExecution.Status.State === 'CANCELLED') {
+      throw overBudget
+        ? new BudgetExceededError(queryCheckExecution.QueryExecution, maxBytesScanned)
+        : new QueryCancelledError(queryCheckExecution.QueryExecution);
     }
 
     return queryCheckExecution;
   }
 
+  /**
+   * Where and how query results are written: output location, encryption, expected bucket owner and ACL.
+   */
+  private resultConfiguration(): Athena.ResultConfiguration {
+    const { outputLocation, encryptionOption, kmsKey, expectedBucketOwner, bucketOwnerFullControl } = this.credentials;
+    const encrypted = !!encryptionOption && encryptionOption !== 'None';
+
+    if (encrypted && encryptionOption !== 'SSE_S3' && !kmsKey) {
+      throw new Error(`${encryptionOption} encryption of query results needs a KMS key.`);
+    }
+    if (expectedBucketOwner && !/^\d{12}$/.test(expectedBucketOwner)) {
+      throw new Error(`Expected bucket owner "${expectedBucketOwner}" is not an AWS account id.`);
+    }
+
+    return {
+      OutputLocation: outputLocation || undefined,
+      EncryptionConfiguration: encrypted ? {
+        EncryptionOption: encryptionOption,
+        KmsKey: encryptionOption === 'SSE_S3' ? undefined : kmsKey,
+      } : undefined,
+      ExpectedBucketOwner: expectedBucketOwner || undefined,
+      AclConfiguration: bucketOwnerFullControl ? { S3AclOption: 'BUCKET_OWNER_FULL_CONTROL' } : undefined,
+    };
+  }
+
   private async getQueryResults(
-    queryExecutionId: string
+    queryExecutionId: string,
+    maxRows: number = Infinity,
   ) {
-    const results: PromiseResult<GetQueryResultsOutput, AWSError>[] = [];
-    let result: PromiseResult<GetQueryResultsOutput, AWSError>;
+    const results: GetQueryResultsOutput[] = [];
+    let result: GetQueryResultsOutput;
     let nextToken: string | null = null;
+    let rowCount = 0;
     let db = await this.open();
 
     do {
@@ -118,49 +365,465 @@ export default class AthenaDriver extends AbstractDriver<Athena, Athena.Types.Cl
       };
       if (nextToken) {
         payload.NextToken = nextToken;
-        await this.sleep(200);
       }
-      result = await db.getQueryResults(payload).promise();
+      result = await db.request((athena) => athena.getQueryResults(payload));
       nextToken = result?.NextToken;
+      rowCount += result.ResultSet.Rows.length;
       results.push(result);
-    } while (nextToken);
+    } while (nextToken && rowCount < maxRows);
 
     return results;
   }
 
-  public query: (typeof AbstractDriver)['prototype']['query'] = async (queries, opt = {}) => {
-    const queryExecution = await this.rawQuery(queries.toString());
-    const results = await this.getQueryResults(queryExecution.QueryExecution?.QueryExecutionId || '');
-    const columns = results[0].ResultSet.ResultSetMetadata.ColumnInfo.map((info) => info.Name);
-    const resultSet = [];
+  /**
+   * Reads the rows of a finished execution, paging through `GetQueryResults` or streaming the
+   * CSV output file from S3. At most `maxResultRows` rows are kept. Files encrypted with `CSE_KMS`
+   * are encrypted on the client side, which a plain `GetObject` can't decrypt, so they are always read
+   * through `GetQueryResults`.
+   */
+  private async fetchRows(execution: Athena.QueryExecution) {
+    const maxRows: number = this.credentials.maxResultRows || DEFAULT_MAX_RESULT_ROWS;
+    const outputLocation = execution.ResultConfiguration?.OutputLocation || '';
+    const encryption = execution.ResultConfiguration?.EncryptionConfiguration?.EncryptionOption || this.credentials.encryptionOption;
+
+    if (this.credentials.resultFetchMode === 'S3 Output File' && /\.csv$/.test(outputLocation) && encryption !== 'CSE_KMS') {
+      const db = await this.open();
+      const { ResultSet } = await db.request((athena) => athena.getQueryResults({
+        QueryExecutionId: execution.QueryExecutionId,
+        MaxResults: 1,
+      }));
+      const { rows, truncated } = await readCsvFromS3(this.s3, outputLocation, maxRows, this.credentials.expectedBucketOwner || undefined);
+
+      return { columnInfo: ResultSet.ResultSetMetadata.ColumnInfo, rows, truncated };
+    }
+
+    // the first row of a DML result holds the column names, so read one more row than the limit
+    const hasHeader = execution.StatementType === 'DML';
+    const results = await this.getQueryResults(execution.QueryExecutionId, maxRows + (hasHeader ? 1 : 0));
+    const rows: CsvRow[] = [];
     results.forEach((result, i) => {
-      const rows = result.ResultSet.Rows;
-      if (i === 0) {
-        rows.shift();
+      const pageRows = result.ResultSet.Rows;
+      if (i === 0 && hasHeader) {
+        pageRows.shift();
       }
-      rows.forEach(({ Data }) => {
-        resultSet.push(
-          Object.assign(
-            {},
-            ...Data.map((column, i) => ({ [columns[i]]: column.VarCharValue }))
-          )
-        );
+      pageRows.forEach(({ Data }) => rows.push(Data.map((column) => column.VarCharValue)));
+    });
+    const truncated = rows.length > maxRows || !!results[results.length - 1].NextToken;
+
+    return { columnInfo: results[0].ResultSet.ResultSetMetadata.ColumnInfo, rows: rows.slice(0, maxRows), truncated };
+  }
+
+  public query: (typeof AbstractDriver)['prototype']['query'] = async (queries, opt = {}) => {
+    if (await this.isSparkWorkgroup()) {
+      this.lastResults = [await this.runCalculation(queries.toString(), opt)];
+      return this.lastResults;
+    }
+
+    const reopened = parseResultsDirective(queries.toString());
+    if (reopened) {
+      this.lastResults = [await this.reopenResults(queries.toString(), opt, reopened).catch((error) => this.buildErrorResult(queries.toString(), opt, error))];
+      return this.lastResults;
+    }
+
+    const statements = splitStatements(queries.toString());
+    const stopOnError = this.credentials.statementErrorMode !== 'Continue';
+    const response: NSDatabase.IResult[] = [];
+
+    for (let i = 0; i < statements.length; i++) {
+      try {
+        response.push(await this.queryStatement(statements[i], opt));
+      } catch (error) {
+        const cancelled = error instanceof QueryCancelledError;
+        const result = this.buildErrorResult(statements[i], opt, error);
+        response.push(result);
+
+        const skipped = statements.length - i - 1;
+        if (cancelled || stopOnError) {
+          if (skipped) {
+            result.messages.push(this.prepareMessage(`${skipped} remaining ${skipped === 1 ? 'statement was' : 'statements were'} not run.`));
+          }
+          break;
+        }
+      }
+    }
+
+    this.lastResults = response;
+    return response;
+  }
+
+  /**
+   * A workgroup whose details can't be read is assumed to run SQL.
+   */
+  private isSparkWorkgroup() {
+    if (!this.sparkWorkgroup) {
+      this.sparkWorkgroup = this.open()
+        .then((db) => db.request((athena) => athena.getWorkGroup({ WorkGroup: this.credentials.workgroup })))
+        .then(({ WorkGroup: workgroup }) => isSparkWorkgroup(workgroup))
+        .catch(() => false);
+    }
+    return this.sparkWorkgroup;
+  }
+
+  /**
+   * Runs the whole editor contents as one calculation in the connection's Spark session. Its result
+   * file fills the rows, its stdout and stderr the messages.
+   */
+  private async runCalculation(code: string, opt: IQueryOptions): Promise<NSDatabase.IResult> {
+    this.spark = this.spark || new SparkSession(() => this.open(), {
+      workgroup: this.credentials.workgroup,
+      maxConcurrentDpus: this.credentials.sparkMaxConcurrentDpus ?? DEFAULT_SPARK_MAX_CONCURRENT_DPUS,
+      idleTimeout: this.credentials.sparkIdleTimeout ?? DEFAULT_SPARK_IDLE_TIMEOUT,
+    });
+
+    try {
+      const calculation = await this.spark.calculate(calculationCode(code, this.credentials.sparkLanguage || 'Spark SQL'), opt.requestId);
+      const read = (location?: string) => location
+        ? readTextFromS3(this.s3, location, MAX_CALCULATION_OUTPUT, this.credentials.expectedBucketOwner || undefined).catch(() => '')
+        : Promise.resolve('');
+      const [result, stdout, stderr] = await Promise.all([
+        read(calculation.Result?.ResultS3Uri),
+        read(calculation.Result?.StdOutS3Uri),
+        read(calculation.Result?.StdErrorS3Uri),
+      ]);
+      const { State: state, StateChangeReason: reason } = calculation.Status;
+      const { cols, rows } = parseCalculationResult(result);
+
+      return this.buildResult(code, opt, {
+        error: state === 'FAILED',
+        cols,
+        results: rows,
+        messages: [
+          `Calculation "${calculation.CalculationExecutionId}" ${state === 'CANCELED' ? 'cancelled' : state.toLowerCase()}${reason ? `: ${reason}` : '.'}`,
+          `DPU time: ${this.formatDuration(calculation.Statistics?.DpuExecutionInMillis || 0)}. Session: ${calculation.SessionId}`,
+          ...(stdout.trim() ? [`stdout:\n${stdout.replace(/\s+$/, '')}`] : []),
+          ...(stderr.trim() ? [`stderr:\n${stderr.replace(/\s+$/, '')}`] : []),
+        ].map((message) => this.prepareMessage(message)),
+      });
+    } catch (error) {
+      return this.buildErrorResult(code, opt, error);
+    }
+  }
+
+  private buildErrorResult(query: string, opt: IQueryOptions, error: Error): NSDatabase.IResult {
+    if (error instanceof BudgetExceededError) {
+      return this.buildResult(query, opt, {
+        error: true,
+        rawError: error,
+        messages: [this.prepareMessage(`Query "${error.execution.QueryExecutionId}" stopped: ` +
+          `${this.formatBytes(error.execution.Statistics?.DataScannedInBytes || 0)} scanned, ` +
+          `over the ${this.formatBytes(error.maxBytesScanned)} limit of this connection. ` +
+          `Estimated cost ${formatCost(this.estimateCost(error.execution))}`)],
+      });
+    }
+    if (error instanceof QueryCancelledError) {
+      return this.buildResult(query, opt, {
+        messages: [this.prepareMessage(`Query "${error.execution.QueryExecutionId}" cancelled. ` +
+          `${this.formatBytes(error.execution.Statistics?.DataScannedInBytes || 0)} scanned`)],
+      });
+    }
+    if (error instanceof QueryFailedError) {
+      const excerpt = error.excerpt();
+      const classification = [
+        error.category && `${error.category} error`,
+        error.errorType !== undefined && `type ${error.errorType}`,
+        error.retryable ? 'retryable' : 'not retryable',
+      ].filter(Boolean).join(', ');
+
+      return this.buildResult(query, opt, {
+        error: true,
+        rawError: error,
+        messages: [
+          this.prepareMessage(`Query "${error.execution.QueryExecutionId}" failed: ${error.message}`),
+          this.prepareMessage(`${classification}.`),
+          ...(excerpt ? [this.prepareMessage(`At line ${error.position.line}, column ${error.position.column} of the statement:\n${excerpt}`)] : []),
+          ...this.describeExecution(error.execution).map((message) => this.prepareMessage(message)),
+        ],
       });
+    }
+    return this.buildResult(query, opt, {
+      error: true,
+      rawError: error,
+      messages: [this.prepareMessage(error.message)],
     });
+  }
+
+  private async queryStatement(query: string, opt: AthenaQueryOptions): Promise<NSDatabase.IResult> {
+    // Athena has no USE statement: it only changes the context sent with the next queries
+    const use = parseUseStatement(query);
+    if (use) {
+      const context = this.useDatabase(use.database, use.catalog);
+      return this.buildResult(query, opt, {
+        messages: [this.prepareMessage(`Queries now run in ${qualifiedName(context.Catalog || DEFAULT_CATALOG, context.Database)}.`)],
+      });
+    }
 
-    const response: NSDatabase.IResult[] = [{
+    if (!opt.explorerQuery) await this.confirmLargeScans(query);
+    const { query: boundQuery, executionParameters } = await this.bindParameters(query);
+    const queryExecution = await this.rawQuery(boundQuery, opt, executionParameters);
+
+    return this.buildExecutionResult(query, opt, queryExecution.QueryExecution);
+  }
+
+  /**
+   * Reads the rows of a succeeded execution into a result.
+   */
+  private async buildExecutionResult(query: string, opt: IQueryOptions, execution: Athena.QueryExecution) {
+    const { columnInfo, rows, truncated } = await this.fetchRows(execution);
+    const columns = columnInfo.map((info) => info.Name);
+    const resultSet = rows.map((row) => Object.assign(
+      {},
+      ...row.map((value, i) => ({ [columns[i]]: parseValue(value, columnInfo[i]) }))
+    ));
+
+    return this.buildResult(query, opt, {
       cols: columns,
-      connId: this.getId(),
-      messages: [{ date: new Date(), message: `Query "${queryExecution.QueryExecution?.QueryExecutionId}" ` +
-      `ok with ${resultSet.length} results. ` +
-      `${this.formatBytes(queryExecution?.QueryExecution?.Statistics?.DataScannedInBytes||0)} scanned`}],
+      messages: [
+        { date: new Date(), message: `Query "${execution.QueryExecutionId}" ` +
+        `ok with ${resultSet.length} results${truncated ? ` (truncated, the query returned more than ${resultSet.length} rows)` : ''}. ` +
+        `${this.formatBytes(execution.Statistics?.DataScannedInBytes||0)} scanned` },
+        ...this.describeExecution(execution).map((message) => this.prepareMessage(message)),
+      ],
       results: resultSet,
-      query: queries.toString(),
+    });
+  }
+
+  /**
+   * Recent executions of the connection's workgroup, most recent first.
+   */
+  public async listQueryHistory(maxResults: number = HISTORY_SIZE) {
+    const db = await this.open();
+    const { QueryExecutionIds: ids } = await db.request((athena) => athena.listQueryExecutions({
+      WorkGroup: this.credentials.workgroup,
+      MaxResults: Math.min(maxResults, HISTORY_SIZE),
+    }));
+    if (!ids?.length) return [];
+
+    const { QueryExecutions: executions } = await db.request((athena) => athena.batchGetQueryExecution({ QueryExecutionIds: ids }));
+    const byId = new Map((executions || []).map((execution) => <[string, Athena.QueryExecution]>[execution.QueryExecutionId, execution]));
+
+    return ids.filter((id) => byId.has(id)).map((id) => {
+      const { Query, Status, Statistics, StatementType } = byId.get(id);
+      return {
+        queryExecutionId: id,
+        query: Query,
+        statementType: StatementType,
+        state: Status?.State,
+        stateChangeReason: Status?.StateChangeReason,
+        submittedAt: Status?.SubmissionDateTime,
+        durationMillis: Statistics?.TotalExecutionTimeInMillis,
+        dataScannedInBytes: Statistics?.DataScannedInBytes,
+      };
+    });
+  }
+
+  /**
+   * Loads the results of a past execution without running it again.
+   */
+  private async reopenResults(query: string, opt: IQueryOptions, queryExecutionId: string) {
+    const db = await this.open();
+    const { QueryExecution: execution } = await db.request((athena) => athena.getQueryExecution({ QueryExecutionId: queryExecutionId }));
+
+    if (execution.Status?.State !== 'SUCCEEDED') {
+      throw new Error(`Query "${queryExecutionId}" has no results: it is ${(execution.Status?.State || 'unknown').toLowerCase()}.`);
+    }
+
+    return this.buildExecutionResult(query, opt, execution);
+  }
+
+  /**
+   * Timings, result reuse, estimated cost and output location of an execution, one message each.
+   */
+  private describeExecution(execution: Athena.QueryExecution) {
+    const statistics = execution.Statistics || {};
+    const timings = [
+      ['engine', statistics.EngineExecutionTimeInMillis],
+      ['queued', statistics.QueryQueueTimeInMillis],
+      ['planning', statistics.QueryPlanningTimeInMillis],
+      ['service', statistics.ServiceProcessingTimeInMillis],
+      ['total', statistics.TotalExecutionTimeInMillis],
+    ]
+      .filter(([, millis]) => millis !== undefined)
+      .map(([label, millis]) => `${label} ${this.formatDuration(<number>millis)}`);
+    const messages: string[] = [];
+
+    if (timings.length) {
+      messages.push(`Time: ${timings.join(', ')}.`);
+    }
+    messages.push(
+      (statistics.ResultReuseInformation?.ReusedPreviousResult ? 'Reused the result of a previous execution. ' : '') +
+      `Estimated cost ${formatCost(this.estimateCost(execution))}.`
+    );
+    if (execution.ResultConfiguration?.OutputLocation) {
+      messages.push(`Output: ${execution.ResultConfiguration.OutputLocation}`);
+    }
+    if (execution.QueryExecutionContext?.Database) {
+      const { Catalog, Database } = execution.QueryExecutionContext;
+      messages.push(`Context: ${qualifiedName(Catalog || DEFAULT_CATALOG, Database)}`);
+    }
+    if (execution.WorkGroup) {
+      messages.push(`Workgroup: ${execution.WorkGroup}`);
+    }
+
+    return messages;
+  }
+
+  private formatDuration(millis: number) {
+    if (millis < 1000) return `${millis} ms`;
+    if (millis < 60000) return `${(millis / 1000).toFixed(1)} s`;
+    return `${Math.floor(millis / 60000)} min ${Math.round(millis % 60000 / 1000)} s`;
+  }
+
+  /**
+   * Asks for the values of the statement's `?` and `:name` placeholders (or of the placeholders of the
+   * prepared statement run by a bare `EXECUTE name`), so Athena binds them as `ExecutionParameters`.
+   */
+  private async bindParameters(query: string): Promise<{ query: string, executionParameters?: string[] }> {
+    if (isPrepare(query)) return { query };
+
+    let placeholders = findPlaceholders(query);
+    const statementName = !placeholders.length && executedStatementName(query);
+    if (statementName) {
+      const { QueryStatement } = await this.getPreparedStatement(statementName);
+      placeholders = findPlaceholders(QueryStatement).filter((placeholder) => !placeholder.name);
+    }
+    if (!placeholders.length) return { query };
+
+    let position = 0;
+    const labels = placeholders.map((placeholder) => placeholder.name ? `:${placeholder.name}` : `?${++position}`);
+    const names = labels.filter((label, i) => labels.indexOf(label) === i);
+    const values = await promptParameters(names);
+    if (!values) {
+      throw new Error('Statement not run: no values were given for its parameters.');
+    }
+
+    return {
+      query: statementName ? query : toPositional(query, placeholders.filter((placeholder) => placeholder.name)),
+      executionParameters: labels.map((label) => toSqlLiteral(values[names.indexOf(label)])),
+    };
+  }
+
+  public async listPreparedStatements() {
+    const db = await this.open();
+    const statements: Athena.PreparedStatementSummary[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const result = await db.request((athena) => athena.listPreparedStatements({
+        WorkGroup: this.credentials.workgroup,
+        NextToken: nextToken,
+      }));
+      statements.push(...(result.PreparedStatements || []));
+      nextToken = result.NextToken;
+    } while (nextToken);
+
+    return statements;
+  }
+
+  public async getPreparedStatement(statementName: string) {
+    const db = await this.open();
+    const { PreparedStatement } = await db.request((athena) => athena.getPreparedStatement({
+      StatementName: statementName,
+      WorkGroup: this.credentials.workgroup,
+    }));
+    return PreparedStatement;
+  }
+
+  public async deletePreparedStatement(statementName: string) {
+    const db = await this.open();
+    await db.request((athena) => athena.deletePreparedStatement({
+      StatementName: statementName,
+      WorkGroup: this.credentials.workgroup,
+    }));
+  }
+
+  private estimateCost(execution: Athena.QueryExecution) {
+    return estimateCost(execution.Statistics?.DataScannedInBytes || 0, this.credentials.pricePerTB ?? DEFAULT_PRICE_PER_TB);
+  }
+
+  /**
+   * Asks before running a statement that reads one of the connection's `largeTables` in a query block
+   * with neither a LIMIT nor a predicate on one of the table's partition keys.
+   */
+  private async confirmLargeScans(query: string) {
+    const largeTables: string[] = this.credentials.largeTables || [];
+    if (!this.credentials.confirmLargeScans || !largeTables.length) return;
+
+    const unbounded: string[] = [];
+
+    for (const { name: reference, block } of findTableReferences(query)) {
+      if (/\blimit\s+\d+/i.test(block)) continue;
+      const where = (/\bwhere\b([\s\S]*)/i.exec(block) || [])[1] || '';
+      const parts = splitIdentifier(reference);
+      const table = parts.pop();
+      const database = parts.pop() || this.context.Database;
+      const catalog = parts.pop() || this.context.Catalog || DEFAULT_CATALOG;
+      const isLarge = largeTables.some((pattern) => {
+        const patternParts = splitIdentifier(pattern);
+        const tablePattern = patternParts.pop();
+        const databasePattern = patternParts.pop();
+        return matchesGlob(table, tablePattern) && (!database || !databasePattern || matchesGlob(database, databasePattern));
+      });
+      if (!isLarge) continue;
+
+      const found = await this.metadata.findTable(catalog, database, table).catch(() => null);
+      const filtersPartitions = (found?.table.PartitionKeys || []).some((key) =>
+        new RegExp(`(^|[^\\w])${key.Name.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&')}($|[^\\w])`, 'i').test(where)
+      );
+      if (!filtersPartitions) unbounded.push(reference);
+    }
+
+    if (unbounded.length && !(await confirm(
+      `This statement reads ${unbounded.join(', ')} without a LIMIT or a partition predicate and may scan the whole table. Run it anyway?`,
+      'Run',
+    ))) {
+      throw new Error(`Statement not run: it would scan ${unbounded.join(', ')} without a LIMIT or a partition predicate.`);
+    }
+  }
+
+  private buildResult(query: string, opt: IQueryOptions, result: Partial<NSDatabase.IResult>): NSDatabase.IResult {
+    return {
+      cols: [],
+      connId: this.getId(),
+      messages: [],
+      results: [],
+      query,
       requestId: opt.requestId,
       resultId: generateId(),
-    }];
+      ...result,
+    };
+  }
 
-    return response;
+  /**
+   * Orders every page of the preview, the first one included, by every column that can be sorted,
+   * so that pages read by separate executions neither overlap nor skip rows. When the page or the
+   * count fails, its error result is shown instead.
+   */
+  public async showRecords(table: NSDatabase.ITable, opt: IQueryOptions & { limit: number, page?: number }) {
+    const found = await this.metadata.findTable(table.schema || DEFAULT_CATALOG, table.database, table.label).catch(() => null);
+    const orderBy = found
+      ? [...(found.table.PartitionKeys || []), ...(found.table.Columns || [])]
+        .filter((column) => !/^\s*(array|map|struct|row|json)\b/i.test(column.Type || ''))
+        .map((column) => column.Name)
+      : [];
+
+    const { limit, page = 0 } = opt;
+    const params = { ...opt, orderBy, limit, table, offset: page * limit };
+    const queryOpt: AthenaQueryOptions = { ...opt, explorerQuery: true };
+    const [records, totalResult] = await Promise.all([
+      this.singleQuery(this.queries.fetchRecords(params), queryOpt),
+      this.singleQuery(this.queries.countRecords(params), queryOpt),
+    ]);
+    // failed statements come back as error results, which have no rows to page or count
+    if (records.error) return [records];
+    if (totalResult.error) return [totalResult];
+
+    records.baseQuery = this.queries.fetchRecords.raw;
+    records.pageSize = limit;
+    records.page = page;
+    records.total = Number(totalResult.results[0]?.total);
+    records.queryType = 'showRecords';
+    records.queryParams = table;
+    return [records];
   }
 
   /** if you need a different way to test your connection, you can set it here.
@@ -168,7 +831,11 @@ export default class AthenaDriver extends AbstractDriver<Athena, Athena.Types.Cl
    */
   public async testConnection() {
     await this.open();
-    await this.query('SELECT 1', {});
+    await this.checkWorkgroup();
+    // starting a Spark session just to test the connection would take minutes and cost DPUs
+    if (await this.isSparkWorkgroup()) return;
+    const [result] = await this.query('SELECT 1', {});
+    if (result.error) throw result.rawError;
   }
 
   /**
@@ -176,45 +843,52 @@ export default class AthenaDriver extends AbstractDriver<Athena, Athena.Types.Cl
    * it gets the child items based on current item
    */
   public async getChildrenForItem({ item, parent }: Arg0<IConnectionDriver['getChildrenForItem']>) {
-    const db = await this.connection;
-
     switch (item.type) {
       case ContextValue.CONNECTION:
       case ContextValue.CONNECTED_CONNECTION:
         return <MConnectionExplorer.IChildItem[]>[
           { label: 'Catalogs', type: ContextValue.RESOURCE_GROUP, iconId: 'folder', childType: ContextValue.SCHEMA },
+          { label: 'Saved Queries', type: ContextValue.RESOURCE_GROUP, iconId: 'bookmark', childType: <ContextValue><string>NAMED_QUERY_CONTEXT, athenaGroup: 'namedQueries' },
+          { label: 'Workgroups', type: ContextValue.RESOURCE_GROUP, iconId: 'organization', childType: ContextValue.RESOURCE_GROUP, athenaGroup: 'workgroups' },
         ]
       case ContextValue.SCHEMA:
         return <MConnectionExplorer.IChildItem[]>[
-          { label: 'Databases', type: ContextValue.RESOURCE_GROUP, iconId: 'folder', childType: ContextValue.DATABASE },
+          { label: 'Databases', type: ContextValue.RESOURCE_GROUP, iconId: 'folder', childType: ContextValue.DATABASE, schema: item.schema, database: '' },
         ];
       case ContextValue.DATABASE:
         return <MConnectionExplorer.IChildItem[]>[
-          { label: 'Tables', type: ContextValue.RESOURCE_GROUP, iconId: 'folder', childType: ContextValue.TABLE },
-          { label: 'Views', type: ContextValue.RESOURCE_GROUP, iconId: 'folder', childType: ContextValue.VIEW },
+          { label: 'Tables', type: ContextValue.RESOURCE_GROUP, iconId: 'folder', childType: ContextValue.TABLE, schema: item.schema, database: item.database },
+          { label: 'Views', type: ContextValue.RESOURCE_GROUP, iconId: 'folder', childType: ContextValue.VIEW, schema: item.schema, database: item.database },
         ];
       case ContextValue.TABLE:
       case ContextValue.VIEW:
-        const tableMetadata = await db.getTableMetadata({
-          CatalogName: item.schema,
-          DatabaseName: item.database,
-          TableName: item.label
-        }).promise();
-
-        return [
-          ...tableMetadata.TableMetadata.Columns,
-          ...tableMetadata.TableMetadata.PartitionKeys,
-        ].map(column => ({
-          label: column.Name,
-          type: ContextValue.COLUMN,
-          dataType: column.Type,
-          schema: item.schema,
-          database: item.database,
-          childType: ContextValue.NO_CHILD,
-          isNullable: true,
-          iconName: 'column',
-          table: parent,
-        }));
+      case <ContextValue><string>ICEBERG_TABLE_CONTEXT:
+        const tableGroup = (label: string, athenaGroup: TableGroup, iconId: string, childType: ContextValue) => ({
+          label, type: ContextValue.RESOURCE_GROUP, iconId, childType, schema: item.schema, database: item.database, tableName: item.label, athenaGroup,
+        });
+
+        if (item.type === <ContextValue><string>ICEBERG_TABLE_CONTEXT) {
+          return <MConnectionExplorer.IChildItem[]>[
+            tableGroup('Columns', 'columns', 'symbol-field', ContextValue.COLUMN),
+            tableGroup('Snapshots', 'snapshots', 'history', ContextValue.NO_CHILD),
+            tableGroup('History', 'history', 'git-commit', ContextValue.NO_CHILD),
+            tableGroup('Manifests', 'manifests', 'file', ContextValue.NO_CHILD),
+            tableGroup('Partitions', 'icebergPartitions', 'folder', ContextValue.NO_CHILD),
+            tableGroup('Properties', 'properties', 'symbol-property', ContextValue.NO_CHILD),
+          ];
+        }
+
+        const found = item.type === ContextValue.VIEW
+          ? null
+          : await this.metadata.findTable(item.schema || DEFAULT_CATALOG, item.database, item.label).catch(() => null);
+        return <MConnectionExplorer.IChildItem[]>[
+          tableGroup('Columns', 'columns', 'symbol-field', ContextValue.COLUMN),
+          ...(found?.table.PartitionKeys?.length ? [
+            tableGroup('Partition keys', 'partitionKeys', 'key', ContextValue.COLUMN),
+            tableGroup('Partitions', 'partitions', 'folder', ContextValue.NO_CHILD),
+          ] : []),
+          tableGroup('Properties', 'properties', 'symbol-property', ContextValue.NO_CHILD),
+        ];
       case ContextValue.RESOURCE_GROUP:
         return this.getChildrenForGroup({ item, parent });
     }
@@ -224,167 +898,684 @@ export default class AthenaDriver extends AbstractDriver<Athena, Athena.Types.Cl
 
   /**
    * This method is a helper to generate the connection explorer tree.
-   * It gets the child based on child types
+   * It gets the child based on child types. Lists are read one page at a time: the last child of a
+   * page that is not the last one is a "Load more" group carrying the `nextToken` of the next page.
    */
   private async getChildrenForGroup({ parent, item }: Arg0<IConnectionDriver['getChildrenForItem']>) {
     const db = await this.connection;
-    
-    switch (item.childType) {
+    const group: ExplorerGroup = item;
+    const schema = group.schema || parent?.schema;
+    const database = group.database || parent?.database;
+    const filter: ExplorerFilter = this.credentials.explorerFilter || {};
+    let page: ExplorerPage<MConnectionExplorer.IChildItem>;
+
+    if (group.athenaGroup === 'namedQueries') {
+      page = await this.readPages((nextToken) => this.listNamedQueries(nextToken), group.nextToken);
+    } else if (group.athenaGroup === 'workgroups') {
+      page = await this.readPages((nextToken) => this.listWorkgroups(nextToken), group.nextToken);
+    } else if (group.athenaGroup === 'workgroup') {
+      page = { items: await this.describeWorkgroup(group.workgroupName) };
+    } else if (group.athenaGroup) {
+      page = await this.getChildrenForTableGroup(group, schema, database);
+    } else switch (item.childType) {
       case ContextValue.SCHEMA:
-        const catalogs = await db.listDataCatalogs().promise();
-
-        return catalogs.DataCatalogsSummary.map((catalog) => ({
-          database: '',
-          label: catalog.CatalogName,
-          type: item.childType,
-          schema: catalog.CatalogName,
-          childType: ContextValue.DATABASE,
-        }));
+        page = await this.readPages(async (nextToken) => {
+          const result = await db.request((athena) => athena.listDataCatalogs({ NextToken: nextToken, MaxResults: EXPLORER_PAGE_SIZE }));
+          return {
+            items: result.DataCatalogsSummary
+              .filter((catalog) => matchesNameFilter(catalog.CatalogName, filter.catalogs))
+              .map((catalog) => ({
+                database: '',
+                label: catalog.CatalogName,
+                detail: catalog.Type,
+                type: item.childType,
+                schema: catalog.CatalogName,
+                childType: ContextValue.DATABASE,
+              })),
+            nextToken: result.NextToken,
+          };
+        }, group.nextToken);
+        break;
       case ContextValue.DATABASE:
-        let databaseList = [];          
-        let firstBatch:boolean = true;
-        let nextToken:string|null = null;
-        
-        while (firstBatch == true || nextToken !== null) {
-          firstBatch = false;
-          let listDbRequest = {
-            CatalogName: parent.schema,
-          }
-          if (nextToken !== null) {
-            Object.assign(listDbRequest, {
-              NextToken: nextToken,
-            });
-          }
-          const catalog = await db.listDatabases(listDbRequest).promise();
-          nextToken = 'NextToken' in catalog ? catalog.NextToken : null;
-
-          databaseList = databaseList.concat(
-            catalog.DatabaseList.map((database) => ({
-              database: database.Name,
-              label: database.Name,
-              type: item.childType,
-              schema: parent.schema,
-              childType: ContextValue.TABLE,
-            })));
-        }
-        return databaseList;
+        page = await this.readPages(async (nextToken) => {
+          const result = await db.request((athena) => athena.listDatabases({ CatalogName: schema, NextToken: nextToken, MaxResults: EXPLORER_PAGE_SIZE }));
+          return {
+            items: result.DatabaseList
+              .filter((entry) => matchesNameFilter(entry.Name, filter.databases))
+              .map((entry) => ({
+                database: entry.Name,
+                label: entry.Name,
+                type: item.childType,
+                schema,
+                childType: ContextValue.TABLE,
+              })),
+            nextToken: result.NextToken,
+          };
+        }, group.nextToken);
+        break;
       case ContextValue.TABLE:
-        const tables = await this.rawQuery(`SHOW TABLES IN \`${parent.database}\``);
-        const views = await this.rawQuery(`SHOW VIEWS IN "${parent.database}"`);
-
-        const viewsSet = new Set(views[0].ResultSet.Rows.map((row) => row.Data[0].VarCharValue));
-
-        return tables[0].ResultSet.Rows
-          .filter((row) => !viewsSet.has(row.Data[0].VarCharValue))
-          .map((row) => ({
-            database: parent.database,
-            label: row.Data[0].VarCharValue,
-            type: item.childType,
-            schema: parent.schema,
-            childType: ContextValue.COLUMN,
-          }));
       case ContextValue.VIEW:
-        const views2 = await this.rawQuery(`SHOW VIEWS IN "${parent.database}"`);
-        
-        return views2[0].ResultSet.Rows.map((row) => ({
-          database: parent.database,
-          label: row.Data[0].VarCharValue,
-          type: item.childType,
-          schema: parent.schema,
-          childType: ContextValue.COLUMN,
-        }));
+        page = await this.readPages(async (nextToken) => {
+          const result = await db.request((athena) => athena.listTableMetadata({
+            CatalogName: schema,
+            DatabaseName: database,
+            NextToken: nextToken,
+            MaxResults: EXPLORER_PAGE_SIZE,
+          }));
+          return {
+            items: (result.TableMetadataList || [])
+              .filter((table) => (table.TableType === 'VIRTUAL_VIEW') === (item.childType === ContextValue.VIEW))
+              .filter((table) => matchesNameFilter(table.Name, filter.tables))
+              .map((table) => ({
+                database,
+                label: table.Name,
+                detail: isIcebergTable(table) ? 'Iceberg' : undefined,
+                type: isIcebergTable(table) ? <ContextValue><string>ICEBERG_TABLE_CONTEXT : item.childType,
+                schema,
+                childType: ContextValue.COLUMN,
+                isView: item.childType === ContextValue.VIEW,
+                isIceberg: isIcebergTable(table),
+              })),
+            nextToken: result.NextToken,
+          };
+        }, group.nextToken);
+        break;
+      default:
+        return [];
+    }
+
+    if (!page.nextToken) return page.items;
+
+    return [
+      ...page.items,
+      <MConnectionExplorer.IChildItem>{
+        label: 'Load more…',
+        type: ContextValue.RESOURCE_GROUP,
+        iconId: 'ellipsis',
+        childType: item.childType,
+        schema,
+        database,
+        athenaGroup: group.athenaGroup,
+        tableName: group.tableName,
+        nextToken: page.nextToken,
+        queryExecutionId: page.queryExecutionId,
+      },
+    ];
+  }
+
+  /**
+   * Children of the groups of a table node. Partitions come from `SHOW PARTITIONS` and the groups of
+   * Iceberg tables from their `"table$snapshots"` like metadata tables, whose results are read one page at a time.
+   */
+  private async getChildrenForTableGroup(group: ExplorerGroup, schema: string, database: string): Promise<ExplorerPage<MConnectionExplorer.IChildItem>> {
+    const db = await this.connection;
+    const leaf = (label: string, detail: string, iconId: string) => leafItem(label, detail, iconId, schema, database);
+
+    if (group.athenaGroup === 'partitions') {
+      const page = await this.readResultsPage(group, `SHOW PARTITIONS ${hiveQualifiedName(database, group.tableName)}`);
+      return { ...page, items: page.items.map((row) => leaf(row[Object.keys(row)[0]], undefined, 'folder')) };
+    }
+    if (group.athenaGroup === 'snapshots' || group.athenaGroup === 'history') {
+      const kind = group.athenaGroup;
+      const page = await this.readResultsPage(group, metadataTableQuery(schema, database, group.tableName, kind));
+      return {
+        ...page,
+        items: page.items.map((row) => {
+          const committedAt = kind === 'snapshots' ? row.committed_at : row.made_current_at;
+          return <MConnectionExplorer.IChildItem>{
+            label: row.snapshot_id,
+            detail: kind === 'snapshots'
+              ? `${committedAt} ${row.operation || ''}`.trim()
+              : `${committedAt}${row.is_current_ancestor === 'true' ? '' : ', not a current ancestor'}`,
+            type: <ContextValue><string>ICEBERG_SNAPSHOT_CONTEXT,
+            childType: ContextValue.NO_CHILD,
+            iconId: kind === 'snapshots' ? 'history' : 'git-commit',
+            schema,
+            database,
+            tableName: group.tableName,
+            snapshotId: row.snapshot_id,
+            committedAt,
+          };
+        }),
+      };
+    }
+    if (group.athenaGroup === 'manifests') {
+      const page = await this.readResultsPage(group, metadataTableQuery(schema, database, group.tableName, 'manifests'));
+      return {
+        ...page,
+        items: page.items.map((row) => leaf(
+          row.path.replace(/^.*\//, ''),
+          `snapshot ${row.added_snapshot_id}: ${row.added_data_files_count} added, ` +
+          `${row.existing_data_files_count} existing, ${row.deleted_data_files_count} deleted files`,
+          'file',
+        )),
+      };
+    }
+    if (group.athenaGroup === 'icebergPartitions') {
+      const page = await this.readResultsPage(group, metadataTableQuery(schema, database, group.tableName, 'partitions'));
+      return {
+        ...page,
+        items: page.items.map((row) => leaf(
+          row.partition,
+          `${row.record_count} rows, ${row.file_count} files, ${this.formatBytes(Number(row.total_size))}`,
+          'folder',
+        )),
+      };
+    }
+
+    const { TableMetadata: table } = await db.request((athena) => athena.getTableMetadata({
+      CatalogName: schema,
+      DatabaseName: database,
+      TableName: group.tableName,
+    }));
+
+    if (group.athenaGroup === 'properties') {
+      const parameters = table.Parameters || {};
+      return {
+        items: [
+          leaf('TableType', table.TableType, 'symbol-property'),
+          ...Object.keys(parameters).sort().map((key) => leaf(key, parameters[key], 'symbol-property')),
+        ],
+      };
+    }
+
+    const columns = [
+      ...(group.athenaGroup === 'columns' ? table.Columns || [] : []).map((column) => ({ column, isPartitionKey: false })),
+      ...(table.PartitionKeys || []).map((column) => ({ column, isPartitionKey: true })),
+    ];
+
+    return {
+      items: columns.map(({ column, isPartitionKey }) => (<NSDatabase.IColumn>{
+        label: column.Name,
+        type: ContextValue.COLUMN,
+        dataType: column.Type,
+        detail: isPartitionKey ? `${column.Type}, partition key` : column.Type,
+        schema,
+        database,
+        childType: ContextValue.NO_CHILD,
+        isNullable: true,
+        isPartitionKey,
+        iconName: 'column',
+        table: group.tableName,
+      })),
+    };
+  }
+
+  /**
+   * One page of the named queries (saved queries) of the connection's workgroup.
+   */
+  private async listNamedQueries(nextToken?: string): Promise<ExplorerPage<MConnectionExplorer.IChildItem>> {
+    const db = await this.open();
+    const result = await db.request((athena) => athena.listNamedQueries({
+      WorkGroup: this.credentials.workgroup,
+      NextToken: nextToken,
+      MaxResults: EXPLORER_PAGE_SIZE,
+    }));
+    if (!result.NamedQueryIds?.length) return { items: [], nextToken: result.NextToken };
+
+    const { NamedQueries: namedQueries } = await db.request((athena) => athena.batchGetNamedQuery({ NamedQueryIds: result.NamedQueryIds }));
+
+    return {
+      items: (namedQueries || [])
+        .sort((a, b) => a.Name.localeCompare(b.Name))
+        .map((namedQuery) => <MConnectionExplorer.IChildItem>{
+          label: namedQuery.Name,
+          detail: namedQuery.Description,
+          type: <ContextValue><string>NAMED_QUERY_CONTEXT,
+          childType: ContextValue.NO_CHILD,
+          iconId: 'bookmark',
+          schema: '',
+          database: namedQuery.Database,
+          snippet: namedQuery.QueryString,
+          namedQueryId: namedQuery.NamedQueryId,
+        }),
+      nextToken: result.NextToken,
+    };
+  }
+
+  private async listWorkgroups(nextToken?: string): Promise<ExplorerPage<MConnectionExplorer.IChildItem>> {
+    const db = await this.open();
+    const result = await db.request((athena) => athena.listWorkGroups({ NextToken: nextToken, MaxResults: EXPLORER_PAGE_SIZE }));
+
+    return {
+      items: (result.WorkGroups || []).map((workgroup) => <MConnectionExplorer.IChildItem>{
+        label: workgroup.Name,
+        detail: [
+          workgroup.Name === this.credentials.workgroup && 'current',
+          workgroup.State === 'DISABLED' && 'disabled',
+          workgroup.Description,
+        ].filter(Boolean).join(', '),
+        type: ContextValue.RESOURCE_GROUP,
+        childType: ContextValue.NO_CHILD,
+        iconId: 'organization',
+        schema: '',
+        database: '',
+        athenaGroup: 'workgroup',
+        workgroupName: workgroup.Name,
+      }),
+      nextToken: result.NextToken,
+    };
+  }
+
+  /**
+   * The settings of a workgroup that matter to queries, one explorer item each.
+   */
+  private async describeWorkgroup(name: string) {
+    const db = await this.open();
+    const { WorkGroup: workgroup } = await db.request((athena) => athena.getWorkGroup({ WorkGroup: name }));
+    const configuration = workgroup.Configuration || {};
+    const results = configuration.ResultConfiguration || {};
+    const encryption = results.EncryptionConfiguration;
+    const flag = (value?: boolean) => value ? 'yes' : 'no';
+
+    return [
+      leafItem('State', workgroup.State, 'symbol-property'),
+      leafItem('Engine version', configuration.EngineVersion?.EffectiveEngineVersion || configuration.EngineVersion?.SelectedEngineVersion, 'symbol-property'),
+      leafItem('Output location', results.OutputLocation || 'none', 'symbol-property'),
+      leafItem('Encryption', encryption ? `${encryption.EncryptionOption}${encryption.KmsKey ? ` (${encryption.KmsKey})` : ''}` : 'none', 'symbol-property'),
+      leafItem('Expected bucket owner', results.ExpectedBucketOwner || 'any', 'symbol-property'),
+      leafItem('Bucket owner full control', flag(results.AclConfiguration?.S3AclOption === 'BUCKET_OWNER_FULL_CONTROL'), 'symbol-property'),
+      leafItem('Override client-side settings', flag(configuration.EnforceWorkGroupConfiguration), 'symbol-property'),
+      leafItem('Data scanned limit per query', configuration.BytesScannedCutoffPerQuery ? this.formatBytes(configuration.BytesScannedCutoffPerQuery) : 'none', 'symbol-property'),
+      leafItem('Requester pays buckets', flag(configuration.RequesterPaysEnabled), 'symbol-property'),
+      leafItem('CloudWatch metrics', flag(configuration.PublishCloudWatchMetricsEnabled), 'symbol-property'),
+      ...(workgroup.Description ? [leafItem('Description', workgroup.Description, 'symbol-property')] : []),
+    ];
+  }
+
+  /**
+   * Checks that the connection's workgroup exists and is enabled, and that query results have
+   * somewhere to go. Skipped when the credentials may not call `GetWorkGroup`.
+   */
+  private async checkWorkgroup() {
+    const db = await this.open();
+    const name = this.credentials.workgroup;
+    let workgroup: Athena.WorkGroup;
+
+    try {
+      ({ WorkGroup: workgroup } = await db.request((athena) => athena.getWorkGroup({ WorkGroup: name })));
+    } catch (error) {
+      if (error?.code === 'InvalidRequestException') {
+        throw new Error(`Workgroup "${name}" does not exist in ${this.credentials.region || 'us-east-1'}: ${error.message}`);
+      }
+      if (error?.code === 'AccessDeniedException') {
+        console.log(`Could not check workgroup ${name}: ${error.message}`);
+        return;
+      }
+      throw error;
+    }
+
+    if (workgroup.State !== 'ENABLED') {
+      throw new Error(`Workgroup "${name}" is disabled.`);
+    }
+    if (!this.credentials.outputLocation && !workgroup.Configuration?.ResultConfiguration?.OutputLocation) {
+      throw new Error(`Workgroup "${name}" has no query result location. Set the connection's S3 Output Location or the workgroup's.`);
     }
-    return [];
+  }
+
+  public async getNamedQuery(namedQueryId: string) {
+    const db = await this.open();
+    const { NamedQuery } = await db.request((athena) => athena.getNamedQuery({ NamedQueryId: namedQueryId }));
+    return NamedQuery;
+  }
+
+  /**
+   * Saves a named query in the connection's workgroup, in `database` or the current default database.
+   */
+  public async createNamedQuery({ name, description, database, queryString }: { name: string, description?: string, database?: string, queryString: string }) {
+    const db = await this.open();
+    const targetDatabase = database || this.context.Database;
+    if (!targetDatabase) {
+      throw new Error('Named queries belong to a database: set a default database first.');
+    }
+
+    // one token for every retry, so that a retried call doesn't save the query twice
+    const clientRequestToken = generateId();
+    const { NamedQueryId } = await db.request((athena) => athena.createNamedQuery({
+      Name: name,
+      Description: description || undefined,
+      Database: targetDatabase,
+      QueryString: queryString,
+      WorkGroup: this.credentials.workgroup,
+      ClientRequestToken: clientRequestToken,
+    }));
+    return NamedQueryId;
+  }
+
+  public async updateNamedQuery(namedQueryId: string, { name, description, queryString }: { name: string, description?: string, queryString: string }) {
+    const db = await this.open();
+    await db.request((athena) => athena.updateNamedQuery({
+      NamedQueryId: namedQueryId,
+      Name: name,
+      Description: description || undefined,
+      QueryString: queryString,
+    }));
+  }
+
+  public async deleteNamedQuery(namedQueryId: string) {
+    const db = await this.open();
+    await db.request((athena) => athena.deleteNamedQuery({ NamedQueryId: namedQueryId }));
+  }
+
+  /**
+   * Runs `statement` on the first call and reads one page of its rows, keyed by column name. The
+   * "Load more" group continuing the page carries the execution id, so later pages don't run it again.
+   */
+  private async readResultsPage(group: ExplorerGroup, statement: string): Promise<ExplorerPage<{ [column: string]: string }>> {
+    const db = await this.open();
+    let queryExecutionId = group.queryExecutionId;
+    let hasHeader = false;
+
+    if (!queryExecutionId) {
+      const { QueryExecution: execution } = await this.rawQuery(statement);
+      queryExecutionId = execution.QueryExecutionId;
+      // statements run by the Trino engine have a header row, Hive DDL statements don't
+      hasHeader = execution.StatementType === 'DML';
+    }
+
+    const result = await db.request((athena) => athena.getQueryResults({
+      QueryExecutionId: queryExecutionId,
+      NextToken: group.nextToken,
+      MaxResults: EXPLORER_PAGE_SIZE + (hasHeader ? 1 : 0),
+    }));
+    const columns = result.ResultSet.ResultSetMetadata.ColumnInfo.map((column) => column.Name);
+    const rows = result.ResultSet.Rows.slice(hasHeader ? 1 : 0);
+
+    return {
+      items: rows.map((row) => Object.assign({}, ...row.Data.map((value, i) => ({ [columns[i]]: value.VarCharValue })))),
+      nextToken: result.NextToken,
+      queryExecutionId,
+    };
+  }
+
+  /**
+   * Query reading an Iceberg table as of one of its snapshots, or as of the time it was committed.
+   */
+  public icebergTimeTravelQuery(snapshot: { schema: string, database: string, tableName: string, snapshotId: string, committedAt: string }, byTimestamp: boolean) {
+    return timeTravelQuery(
+      snapshot.schema || DEFAULT_CATALOG,
+      snapshot.database,
+      snapshot.tableName,
+      byTimestamp ? { timestamp: snapshot.committedAt } : { snapshotId: snapshot.snapshotId },
+    );
+  }
+
+  /**
+   * Compacts the data files of an Iceberg table with `OPTIMIZE ... REWRITE DATA USING BIN_PACK`.
+   */
+  public async optimizeTable(table: NSDatabase.ITable) {
+    const { QueryExecution: execution } = await this.rawQuery(optimizeStatement(table.schema, table.database, table.label));
+    return this.describeExecution(execution);
+  }
+
+  /**
+   * Expires old snapshots and removes orphan files of an Iceberg table, following its `vacuum_*` properties.
+   */
+  public async vacuumTable(table: NSDatabase.ITable) {
+    const { QueryExecution: execution } = await this.rawQuery(vacuumStatement(table.schema, table.database, table.label));
+    return this.describeExecution(execution);
+  }
+
+  /**
+   * Runs a query as `UNLOAD` or CTAS, which write its results to an empty S3 prefix without going
+   * through the query results, and lists the files written.
+   */
+  public async exportQuery(query: string, options: ExportOptions) {
+    const statements = splitStatements(query);
+    if (statements.length !== 1) {
+      throw new Error(`Export one statement at a time, the query has ${statements.length}.`);
+    }
+    await this.open();
+    const location = options.location.trim().replace(/\/*$/, '/');
+    const { Bucket, Key } = parseS3Uri(location);
+    const existing = await this.s3.listObjectsV2({
+      Bucket,
+      Prefix: Key,
+      MaxKeys: 1,
+      ExpectedBucketOwner: this.credentials.expectedBucketOwner || undefined,
+    }).promise();
+    if (existing.KeyCount) {
+      throw new Error(`${location} is not empty. UNLOAD and CTAS only write to an empty location.`);
+    }
+
+    let table: string[];
+    if (options.method === 'CTAS') {
+      table = splitIdentifier(options.table || '');
+      if (!table[table.length - 1]) throw new Error('Enter the name of the table to create.');
+      if (table.length === 1) {
+        if (!this.context.Database) throw new Error('Qualify the table with its database, the connection has no default database.');
+        table.unshift(this.context.Database);
+      }
+    }
+
+    await this.confirmLargeScans(statements[0]);
+    const { QueryExecution: execution } = await this.rawQuery(exportStatement(statements[0], { ...options, location }, table));
+    const files = await this.listS3Objects(location);
+
+    return {
+      queryExecutionId: execution.QueryExecutionId,
+      location,
+      files,
+      totalSize: files.reduce((total, file) => total + file.size, 0),
+      messages: this.describeExecution(execution),
+    };
+  }
+
+  /**
+   * Downloads the files under an S3 prefix to a local directory, keeping their paths below the prefix.
+   */
+  public async downloadExport(location: string, directory: string) {
+    await this.open();
+    const { Bucket, Key: prefix } = parseS3Uri(location);
+    const files = await this.listS3Objects(location);
+
+    for (const file of files) {
+      const { Key } = parseS3Uri(file.location);
+      const target = path.join(directory, ...Key.substr(prefix.length).split('/').filter(Boolean));
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await new Promise<void>((resolve, reject) => {
+        this.s3.getObject({ Bucket, Key, ExpectedBucketOwner: this.credentials.expectedBucketOwner || undefined })
+          .createReadStream()
+          .on('error', reject)
+          .pipe(fs.createWriteStream(target))
+          .on('error', reject)
+          .on('finish', () => resolve());
+      });
+    }
+
+    return { directory, count: files.length, totalSize: files.reduce((total, file) => total + file.size, 0) };
+  }
+
+  private async listS3Objects(location: string) {
+    const { Bucket, Key: Prefix } = parseS3Uri(location);
+    const files: { location: string, size: number }[] = [];
+    let ContinuationToken: string;
+
+    do {
+      const page = await this.s3.listObjectsV2({
+        Bucket,
+        Prefix,
+        ContinuationToken,
+        ExpectedBucketOwner: this.credentials.expectedBucketOwner || undefined,
+      }).promise();
+      (page.Contents || [])
+        .filter((object) => !object.Key.endsWith('/'))
+        .forEach((object) => files.push({ location: `s3://${Bucket}/${object.Key}`, size: object.Size || 0 }));
+      ContinuationToken = page.NextContinuationToken;
+    } while (ContinuationToken);
+
+    return files;
+  }
+
+  /**
+   * Results of the last statements run on the connection that have rows, which can be saved to a file.
+   */
+  public listLastResults() {
+    return this.lastResults
+      .map((result, index) => ({ index, query: result.query, rows: (result.results || []).length, columns: (result.cols || []).length, error: result.error }))
+      .filter((result) => !result.error && result.columns)
+      .map(({ error, ...result }) => result);
+  }
+
+  /**
+   * Writes one of the last results to a local file, without running its query again.
+   */
+  public async saveResults(index: number, format: ResultFileFormat, file: string) {
+    const result = this.lastResults[index];
+    if (!result) throw new Error('The result is no longer available, run the query again.');
+    await fs.promises.writeFile(file, serializeResult(result, format));
+    return { file, rows: (result.results || []).length };
+  }
+
+  /**
+   * Samples the data files under an S3 prefix to infer the columns, format and partitions of a table over them.
+   */
+  public async inferTable(location: string) {
+    await this.open();
+    return sampleTable(this.s3, location, this.credentials.expectedBucketOwner || undefined);
+  }
+
+  public createTableStatement(table: InferredTable, options: CreateTableOptions) {
+    return createTableStatement(table, options);
+  }
+
+  /**
+   * Runs a DDL statement like `SHOW CREATE TABLE` and returns the lines of its output.
+   */
+  private async runDdl(statement: string) {
+    const { QueryExecution: execution } = await this.rawQuery(statement);
+    const results = await this.getQueryResults(execution.QueryExecutionId);
+    const lines: string[] = [];
+
+    results.forEach((result, i) => {
+      const rows = result.ResultSet.Rows;
+      // statements run by the Trino engine have a header row, Hive DDL statements don't
+      if (i === 0 && execution.StatementType === 'DML') rows.shift();
+      rows.forEach((row) => lines.push(row.Data.map((column) => column.VarCharValue ?? '').join('\t')));
+    });
+
+    return lines;
+  }
+
+  public async showCreateStatement(table: NSDatabase.ITable) {
+    const lines = table.isView
+      ? await this.runDdl(`SHOW CREATE VIEW ${qualifiedName(table.schema, table.database, table.label)}`)
+      : await this.runDdl(`SHOW CREATE TABLE ${hiveQualifiedName(table.database, table.label)}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Runs `MSCK REPAIR TABLE` and returns the lines of its output, like `Repair: Added partition to metastore ...`.
+   */
+  public async repairTable(table: NSDatabase.ITable) {
+    return this.runDdl(`MSCK REPAIR TABLE ${hiveQualifiedName(table.database, table.label)}`);
+  }
+
+  /**
+   * Reads pages until at least `EXPLORER_PAGE_SIZE` items are kept or there are no more pages,
+   * so that filters hiding most of a page don't leave the explorer with a near empty list.
+   */
+  private async readPages<T>(readPage: (nextToken?: string) => Promise<ExplorerPage<T>>, nextToken?: string) {
+    const items: T[] = [];
+
+    do {
+      const page = await readPage(nextToken);
+      items.push(...page.items);
+      nextToken = page.nextToken;
+    } while (nextToken && items.length < EXPLORER_PAGE_SIZE);
+
+    return <ExplorerPage<T>>{ items, nextToken };
   }
 
   /**
    * This method is a helper for intellisense and quick picks.
    */
-  public async searchItems(itemType: ContextValue, search: string, _extraParams: any = {}): Promise<NSDatabase.SearchableItem[]> {
+  public async searchItems(itemType: ContextValue, search: string, extraParams: any = {}): Promise<NSDatabase.SearchableItem[]> {
+    const limit: number = extraParams.limit || 100;
+
     switch (itemType) {
       case ContextValue.TABLE:
       case ContextValue.VIEW:
-        let j = 0;
-        return [{
-          database: 'fakedb',
-          label: `${search || 'table'}${j++}`,
-          type: itemType,
-          schema: 'fakeschema',
-          childType: ContextValue.COLUMN,
-        },{
-          database: 'fakedb',
-          label: `${search || 'table'}${j++}`,
-          type: itemType,
-          schema: 'fakeschema',
-          childType: ContextValue.COLUMN,
-        },
-        {
-          database: 'fakedb',
-          label: `${search || 'table'}${j++}`,
-          type: itemType,
-          schema: 'fakeschema',
-          childType: ContextValue.COLUMN,
-        }]
+        return this.searchTables(itemType, search || '', limit);
       case ContextValue.COLUMN:
-        let i = 0;
-        return [
-          {
-            database: 'fakedb',
-            label: `${search || 'porra'}${i++}`,
-            type: ContextValue.COLUMN,
-            dataType: 'faketype',
-            schema: 'fakeschema',
-            childType: ContextValue.NO_CHILD,
-            isNullable: false,
-            iconName: 'column',
-            table: 'fakeTable'
-          },{
-            database: 'fakedb',
-            label: `${search || 'column'}${i++}`,
-            type: ContextValue.COLUMN,
-            dataType: 'faketype',
-            schema: 'fakeschema',
-            childType: ContextValue.NO_CHILD,
-            isNullable: false,
-            iconName: 'column',
-            table: 'fakeTable'
-          },{
-            database: 'fakedb',
-            label: `${search || 'column'}${i++}`,
-            type: ContextValue.COLUMN,
-            dataType: 'faketype',
-            schema: 'fakeschema',
-            childType: ContextValue.NO_CHILD,
-            isNullable: false,
-            iconName: 'column',
-            table: 'fakeTable'
-          },{
-            database: 'fakedb',
-            label: `${search || 'column'}${i++}`,
-            type: ContextValue.COLUMN,
-            dataType: 'faketype',
-            schema: 'fakeschema',
-            childType: ContextValue.NO_CHILD,
-            isNullable: false,
-            iconName: 'column',
-            table: 'fakeTable'
-          },{
-            database: 'fakedb',
-            label: `${search || 'column'}${i++}`,
-            type: ContextValue.COLUMN,
-            dataType: 'faketype',
-            schema: 'fakeschema',
-            childType: ContextValue.NO_CHILD,
-            isNullable: false,
-            iconName: 'column',
-            table: 'fakeTable'
-          }
-        ];
+        return this.searchColumns(search || '', extraParams.tables || [], limit);
     }
     return [];
   }
 
+  public refreshMetadata() {
+    this.metadata.clear();
+  }
+
+  private async searchTables(itemType: ContextValue, search: string, limit: number): Promise<NSDatabase.ITable[]> {
+    const parts = splitIdentifier(search);
+    const tableSearch = (parts.pop() || '').toLowerCase();
+    const database = parts.pop();
+    const catalog = parts.pop() || this.context.Catalog || DEFAULT_CATALOG;
+    const databases = (await this.metadata.getDatabases(catalog))
+      .filter((name) => !database || name.toLowerCase() === database.toLowerCase());
+    const items: NSDatabase.ITable[] = [];
+
+    for (const databaseName of databases) {
+      const tables = await this.metadata.getTables(catalog, databaseName);
+
+      for (const table of tables) {
+        if (!table.Name.toLowerCase().includes(tableSearch)) continue;
+        const isView = table.TableType === 'VIRTUAL_VIEW';
+        if (itemType === ContextValue.VIEW && !isView) continue;
+        items.push(<NSDatabase.ITable>{
+          database: databaseName,
+          label: table.Name,
+          type: isView ? ContextValue.VIEW : ContextValue.TABLE,
+          schema: catalog,
+          childType: ContextValue.COLUMN,
+          isView,
+        });
+        if (items.length >= limit) return items;
+      }
+    }
+
+    return items;
+  }
+
+  private async searchColumns(search: string, tables: NSDatabase.ITable[], limit: number): Promise<NSDatabase.IColumn[]> {
+    const columnSearch = search.toLowerCase();
+    const items: NSDatabase.IColumn[] = [];
+
+    for (const { label, database, schema } of tables.filter((t) => !!t.label)) {
+      const parts = splitIdentifier(label);
+      const tableName = parts.pop();
+      const catalog = parts.length > 1 ? parts.shift() : (schema || this.context.Catalog || DEFAULT_CATALOG);
+      const found = await this.metadata.findTable(catalog, parts.pop() || database || this.context.Database, tableName);
+      if (!found) continue;
+
+      const columns = [
+        ...(found.table.Columns || []).map((column) => ({ column, isPartitionKey: false })),
+        ...(found.table.PartitionKeys || []).map((column) => ({ column, isPartitionKey: true })),
+      ];
+
+      for (const { column, isPartitionKey } of columns) {
+        if (!column.Name.toLowerCase().includes(columnSearch)) continue;
+        items.push({
+          database: found.database,
+          label: column.Name,
+          type: ContextValue.COLUMN,
+          dataType: column.Type,
+          schema: catalog,
+          childType: ContextValue.NO_CHILD,
+          isNullable: true,
+          isPartitionKey,
+          iconName: 'column',
+          table: found.table.Name,
+        });
+        if (items.length >= limit) return items;
+      }
+    }
+
+    return items;
+  }
+
   public getStaticCompletions: IConnectionDriver['getStaticCompletions'] = async () => {
-    return {};
+    return getStaticCompletions();
   }
 }
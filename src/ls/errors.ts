@@ -0,0 +1,68 @@
+import { Athena } from 'aws-sdk';
+
+/**
+ * Thrown when a running query is stopped through `StopQueryExecution`.
+ */
+export class QueryCancelledError extends Error {
+  constructor(public readonly execution: Athena.QueryExecution) {
+    super(`Query "${execution.QueryExecutionId}" was cancelled.`);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+/**
+ * Thrown when a query is stopped for scanning more than the connection's `maxBytesScanned`.
+ */
+export class BudgetExceededError extends QueryCancelledError {
+  constructor(execution: Athena.QueryExecution, public readonly maxBytesScanned: number) {
+    super(execution);
+    this.message = `Query "${execution.QueryExecutionId}" was stopped for scanning more than ${maxBytesScanned} bytes.`;
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const ERROR_CATEGORIES: { [category: number]: string } = {
+  1: 'System',
+  2: 'User',
+  3: 'Other',
+};
+
+/**
+ * Thrown when a query ends in the `FAILED` state. Carries Athena's error classification and,
+ * when the reason has a `line X:Y` position, where in the statement it failed.
+ */
+export class QueryFailedError extends Error {
+  /** `System`, `User` or `Other` */
+  public readonly category?: string;
+  public readonly errorType?: number;
+  public readonly retryable: boolean;
+  /** 1-based line and column in the executed statement */
+  public readonly position?: { line: number, column: number };
+
+  constructor(public readonly execution: Athena.QueryExecution) {
+    super(execution.Status?.StateChangeReason || execution.Status?.AthenaError?.ErrorMessage || `Query "${execution.QueryExecutionId}" failed.`);
+    this.name = 'QueryFailedError';
+
+    const athenaError = execution.Status?.AthenaError;
+    this.category = athenaError?.ErrorCategory ? ERROR_CATEGORIES[athenaError.ErrorCategory] || String(athenaError.ErrorCategory) : undefined;
+    this.errorType = athenaError?.ErrorType;
+    this.retryable = !!athenaError?.Retryable;
+
+    const match = /\bline (\d+):(\d+)/.exec(this.message);
+    if (match) {
+      this.position = { line: Number(match[1]), column: Number(match[2]) };
+    }
+  }
+
+  /**
+   * The line of `query` the error points at, with a caret under the column, or null when the
+   * error has no position in it.
+   */
+  public excerpt(query: string = this.execution.Query || '') {
+    if (!this.position) return null;
+    const line = query.split(/\r?\n/)[this.position.line - 1];
+    if (line === undefined) return null;
+
+    return `${line}\n${' '.repeat(Math.max(0, this.position.column - 1))}^`;
+  }
+}
@@ -0,0 +1,76 @@
+import { NSDatabase } from '@sqltools/types';
+import { ExportFormat } from '../constants';
+import { qualifiedName } from './identifiers';
+import { writeParquet } from './parquet';
+
+export interface ExportOptions {
+  /** `UNLOAD` writes files only, CTAS also creates a table over them */
+  method: 'UNLOAD' | 'CTAS';
+  format: ExportFormat;
+  /** Athena's default compression of the format when empty */
+  compression?: string;
+  /** columns to partition the files by, which must be the last columns of the query */
+  partitionedBy?: string[];
+  /** S3 prefix the files are written to, which must be empty */
+  location: string;
+  /** `[[catalog.]database.]table` created by CTAS, in the connection's database when not qualified */
+  table?: string;
+}
+
+const literal = (value: string) => `'${value.replace(/'/g, '\'\'')}'`;
+
+/**
+ * `WITH` properties shared by `UNLOAD` and CTAS. CSV is written as `TEXTFILE` with a comma delimiter.
+ */
+const formatProperties = (options: ExportOptions, compressionProperty: string) => [
+  `format = ${literal(options.format === 'CSV' ? 'TEXTFILE' : options.format)}`,
+  ...(options.format === 'CSV' ? [`field_delimiter = ${literal(',')}`] : []),
+  ...(options.compression ? [`${compressionProperty} = ${literal(options.compression)}`] : []),
+];
+
+const partitionProperty = (options: ExportOptions) => options.partitionedBy?.length
+  ? [`partitioned_by = ARRAY[${options.partitionedBy.map(literal).join(', ')}]`]
+  : [];
+
+/**
+ * Wraps a query in `UNLOAD`, or in `CREATE TABLE <table> ... AS` when exporting with CTAS.
+ */
+export const exportStatement = (query: string, options: ExportOptions, table?: string[]) => {
+  if (options.method === 'CTAS') {
+    const properties = [
+      ...formatProperties(options, 'write_compression'),
+      `external_location = ${literal(options.location)}`,
+      ...partitionProperty(options),
+    ];
+    return `CREATE TABLE ${qualifiedName(...table)}\nWITH (${properties.join(', ')})\nAS\n${query}`;
+  }
+
+  const properties = [...formatProperties(options, 'compression'), ...partitionProperty(options)];
+  return `UNLOAD (\n${query}\n)\nTO ${literal(options.location)}\nWITH (${properties.join(', ')})`;
+};
+
+export type ResultFileFormat = 'CSV' | 'JSON' | 'PARQUET';
+
+const csvField = (value: any) => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes the rows of a result to a file: CSV with a header row, a JSON array of objects, or Parquet.
+ */
+export const serializeResult = (result: NSDatabase.IResult, format: ResultFileFormat): Buffer => {
+  const columns = result.cols || [];
+  const rows = result.results || [];
+  switch (format) {
+    case 'CSV':
+      return Buffer.from([columns, ...rows.map((row) => columns.map((column) => row[column]))]
+        .map((fields) => fields.map(csvField).join(','))
+        .join('\r\n') + '\r\n', 'utf8');
+    case 'JSON':
+      return Buffer.from(JSON.stringify(rows, null, 2), 'utf8');
+    case 'PARQUET':
+      return writeParquet(columns, rows);
+  }
+};
@@ -0,0 +1,45 @@
+import { Athena } from 'aws-sdk';
+import { qualifiedName } from './identifiers';
+
+export type IcebergMetadataTable = 'snapshots' | 'history' | 'manifests' | 'partitions';
+
+/**
+ * Columns read from each `"table$kind"` metadata table, newest first where it has a time.
+ */
+const METADATA_QUERIES: { [kind in IcebergMetadataTable]: { columns: string, orderBy?: string } } = {
+  snapshots: { columns: 'snapshot_id, committed_at, operation, parent_id', orderBy: 'committed_at DESC' },
+  history: { columns: 'snapshot_id, made_current_at, parent_id, is_current_ancestor', orderBy: 'made_current_at DESC' },
+  manifests: { columns: 'path, added_snapshot_id, added_data_files_count, existing_data_files_count, deleted_data_files_count' },
+  partitions: { columns: 'CAST(partition AS JSON) AS partition, record_count, file_count, total_size', orderBy: 'record_count DESC' },
+};
+
+export const isIcebergTable = (table: Athena.TableMetadata) => (table.Parameters?.table_type || '').toUpperCase() === 'ICEBERG';
+
+/**
+ * Query of one of the metadata tables Athena exposes for an Iceberg table, like `"db"."events$snapshots"`.
+ */
+export const metadataTableQuery = (catalog: string, database: string, table: string, kind: IcebergMetadataTable) => {
+  const { columns, orderBy } = METADATA_QUERIES[kind];
+  return `SELECT ${columns} FROM ${qualifiedName(catalog, database, `${table}$${kind}`)}${orderBy ? ` ORDER BY ${orderBy}` : ''}`;
+};
+
+/**
+ * Time travel query reading a table as of a snapshot, or as of the time a snapshot was committed.
+ */
+export const timeTravelQuery = (
+  catalog: string,
+  database: string,
+  table: string,
+  asOf: { snapshotId: string } | { timestamp: string },
+) => {
+  const clause = 'snapshotId' in asOf
+    ? `FOR VERSION AS OF ${asOf.snapshotId}`
+    : `FOR TIMESTAMP AS OF TIMESTAMP '${asOf.timestamp.replace(/'/g, '\'\'')}'`;
+  return `SELECT *\nFROM ${qualifiedName(catalog, database, table)} ${clause}\nLIMIT 100;\n`;
+};
+
+export const optimizeStatement = (catalog: string, database: string, table: string) =>
+  `OPTIMIZE ${qualifiedName(catalog, database, table)} REWRITE DATA USING BIN_PACK`;
+
+export const vacuumStatement = (catalog: string, database: string, table: string) =>
+  `VACUUM ${qualifiedName(catalog, database, table)}`;
@@ -0,0 +1,72 @@
+/**
+ * Splits a (possibly quoted) dotted name like `catalog."my db".table` into its parts, unquoting each one.
+ */
+export const splitIdentifier = (name: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < name.length; i++) {
+    const char = name[i];
+    if (quote) {
+      if (char === quote && name[i + 1] === quote) {
+        current += char;
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '.') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim()).filter((part, i, all) => part !== '' || i === all.length - 1);
+};
+
+/**
+ * Case-insensitive match of a name against a glob pattern where `*` is any run of characters and `?` any one character.
+ */
+export const matchesGlob = (name: string, pattern: string) => {
+  const source = pattern
+    .split('')
+    .map((char) => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[\\^$.|+()[\]{}]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`, 'i').test(name);
+};
+
+/**
+ * Quotes an identifier for Athena, doubling any `"` inside it: `my"db` becomes `"my""db"`.
+ */
+export const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Quotes and joins the non-empty parts of a qualified name, e.g. `"AwsDataCatalog"."my-db"."table"`.
+ */
+export const qualifiedName = (...parts: string[]) => parts.filter((part) => !!part).map(quoteIdentifier).join('.');
+
+export interface NameFilter {
+  /** glob patterns of the names to show, all of them when empty */
+  include?: string[];
+  /** glob patterns of the names to hide */
+  exclude?: string[];
+}
+
+export const matchesNameFilter = (name: string, filter?: NameFilter) =>
+  (!filter?.include?.length || filter.include.some((pattern) => matchesGlob(name, pattern)))
+  && !(filter?.exclude || []).some((pattern) => matchesGlob(name, pattern));
+
+/**
+ * Quotes and joins the parts of a name for Hive DDL statements like `SHOW PARTITIONS`, which take backticks.
+ */
+export const hiveQualifiedName = (...parts: string[]) => parts
+  .filter((part) => !!part)
+  .map((part) => `\`${part.replace(/`/g, '``')}\``)
+  .join('.');
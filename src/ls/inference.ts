@@ -0,0 +1,520 @@
+import { S3 } from 'aws-sdk';
+import { StringDecoder } from 'string_decoder';
+import * as zlib from 'zlib';
+import { CsvParser, parseS3Uri } from './output';
+import { hiveQualifiedName } from './identifiers';
+import { parquetFooterLength, PARQUET_TAIL_LENGTH, readParquetColumns } from './parquet';
+
+export type DataFormat = 'CSV' | 'JSON' | 'PARQUET';
+
+/** files read to infer the columns, spread over the files found */
+const SAMPLE_FILES = 3;
+
+/** bytes read from the start of each CSV or JSON file, after decompression */
+const SAMPLE_BYTES = 1024 * 1024;
+
+/** keys listed to find the data files and partition values */
+const MAX_LISTED_KEYS = 10000;
+
+const DELIMITERS = [',', '\t', '|', ';'];
+
+/** compressions Athena reads that can't be sampled here: only gzip is decompressed */
+const UNSUPPORTED_COMPRESSION = /\.(bz2|zst|lz4|snappy|deflate|lzo)$/i;
+
+const HIVE_DEFAULT_PARTITION = '__HIVE_DEFAULT_PARTITION__';
+
+const INT_MAX = 2147483647;
+
+export interface InferredColumn {
+  name: string;
+  /** Hive type, as written in DDL */
+  type: string;
+}
+
+export interface InferredPartition extends InferredColumn {
+  /** key of the partition folders, e.g. `Year` in `Year=2020/`, whose column name is lowercase */
+  key: string;
+  /** distinct values found, sorted */
+  values: string[];
+}
+
+export interface InferredTable {
+  location: string;
+  format: DataFormat;
+  /** CSV field delimiter */
+  delimiter?: string;
+  /** whether CSV fields are quoted, which needs `OpenCSVSerde` */
+  quoted?: boolean;
+  columns: InferredColumn[];
+  /** Hive-style `key=value` partition folders */
+  partitions: InferredPartition[];
+  sampledFiles: string[];
+  /** data files found under the location */
+  fileCount: number;
+}
+
+export interface CreateTableOptions {
+  database: string;
+  table: string;
+  /** partition projection instead of loading the partitions with `MSCK REPAIR TABLE` */
+  projection: boolean;
+}
+
+type InferredType =
+  | { kind: 'unknown' }
+  | { kind: 'primitive', name: string }
+  | { kind: 'array', element: InferredType }
+  | { kind: 'struct', fields: InferredField[] };
+
+interface InferredField {
+  name: string;
+  type: InferredType;
+}
+
+const UNKNOWN: InferredType = { kind: 'unknown' };
+const primitive = (name: string): InferredType => ({ kind: 'primitive', name });
+const STRING = primitive('string');
+
+/** numeric types, narrowest first */
+const NUMERIC = ['int', 'bigint', 'double'];
+
+/**
+ * Type of a value stored as text. Booleans and numbers are only inferred when `scalars` is set, i.e. for
+ * CSV fields and partition values, as JSON has its own. Zero-padded numbers like `007` stay strings.
+ */
+const inferText = (value: string, scalars: boolean): InferredType => {
+  const text = value.trim();
+  if (!text) return UNKNOWN;
+  if (scalars && /^(true|false)$/i.test(text)) return primitive('boolean');
+  if (scalars && /^-?(0|[1-9]\d{0,17})$/.test(text)) return primitive(Math.abs(Number(text)) <= INT_MAX ? 'int' : 'bigint');
+  if (scalars && /^-?(0|[1-9]\d*)?(\.\d+)?(e[-+]?\d+)?$/i.test(text) && /\d/.test(text)) return primitive('double');
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return primitive('date');
+  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,9})?$/.test(text)) return primitive('timestamp');
+  return STRING;
+};
+
+const inferJson = (value: any): InferredType => {
+  if (value === null || value === undefined) return UNKNOWN;
+  if (typeof value === 'boolean') return primitive('boolean');
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) return primitive('double');
+    return primitive(Math.abs(value) <= INT_MAX ? 'int' : 'bigint');
+  }
+  if (typeof value === 'string') return inferText(value, false);
+  if (Array.isArray(value)) return { kind: 'array', element: value.map(inferJson).reduce(mergeTypes, UNKNOWN) };
+  return {
+    kind: 'struct',
+    fields: Object.keys(value).reduce((fields, key) => mergeFields(fields, [{ name: key.toLowerCase(), type: inferJson(value[key]) }]), []),
+  };
+};
+
+/**
+ * The narrowest type holding values of both types: numbers widen, structs get the fields of both,
+ * and anything else that differs becomes a string.
+ */
+const mergeTypes = (a: InferredType, b: InferredType): InferredType => {
+  if (a.kind === 'unknown') return b;
+  if (b.kind === 'unknown') return a;
+  if (a.kind === 'primitive' && b.kind === 'primitive') {
+    if (a.name === b.name) return a;
+    if (NUMERIC.indexOf(a.name) >= 0 && NUMERIC.indexOf(b.name) >= 0) {
+      return NUMERIC.indexOf(a.name) > NUMERIC.indexOf(b.name) ? a : b;
+    }
+    return STRING;
+  }
+  if (a.kind === 'array' && b.kind === 'array') return { kind: 'array', element: mergeTypes(a.element, b.element) };
+  if (a.kind === 'struct' && b.kind === 'struct') return { kind: 'struct', fields: mergeFields(a.fields, b.fields) };
+  return STRING;
+};
+
+const mergeFields = (a: InferredField[], b: InferredField[]) => {
+  const fields = a.map((field) => ({ ...field }));
+  b.forEach((field) => {
+    const existing = fields.find((candidate) => candidate.name === field.name);
+    if (existing) {
+      existing.type = mergeTypes(existing.type, field.type);
+    } else {
+      fields.push(field);
+    }
+  });
+  return fields;
+};
+
+/** columns whose values were all NULL are strings */
+const hiveType = (type: InferredType): string => {
+  switch (type.kind) {
+    case 'primitive':
+      return type.name;
+    case 'array':
+      return `array<${hiveType(type.element)}>`;
+    case 'struct':
+      return type.fields.length ? `struct<${type.fields.map((field) => `${field.name}:${hiveType(field.type)}`).join(',')}>` : 'string';
+  }
+  return 'string';
+};
+
+/** CSV header names as column names: lowercase, with runs of other characters than letters, digits and `_` replaced */
+const columnNames = (header: (string | undefined)[]) => {
+  const names: string[] = [];
+  header.forEach((field, i) => {
+    const base = (field || '').trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || `col_${i + 1}`;
+    let name = base;
+    for (let n = 2; names.indexOf(name) >= 0; n++) name = `${base}_${n}`;
+    names.push(name);
+  });
+  return names;
+};
+
+const formatOf = (key: string): DataFormat | undefined => {
+  const name = key.toLowerCase().replace(/\.gz$/, '');
+  if (/\.parquet$/.test(name)) return 'PARQUET';
+  if (/\.(json|jsonl|ndjson)$/.test(name)) return 'JSON';
+  if (/\.(csv|tsv|txt)$/.test(name)) return 'CSV';
+  return undefined;
+};
+
+interface S3File {
+  key: string;
+  size: number;
+}
+
+/**
+ * Data files under a prefix, leaving out folder markers, empty files and the `_SUCCESS`, `.crc`
+ * and other hidden files Hive and Spark write next to the data.
+ */
+const listDataFiles = async (s3: S3, Bucket: string, Prefix: string, ExpectedBucketOwner?: string) => {
+  const files: S3File[] = [];
+  let ContinuationToken: string;
+  let listed = 0;
+
+  do {
+    const page = await s3.listObjectsV2({ Bucket, Prefix, ContinuationToken, ExpectedBucketOwner }).promise();
+    (page.Contents || []).forEach((object) => {
+      const name = object.Key.substr(object.Key.lastIndexOf('/') + 1);
+      if (object.Size && name && !/^[_.]/.test(name) && !/\$folder\$$/.test(name)) {
+        files.push({ key: object.Key, size: object.Size });
+      }
+    });
+    listed += (page.Contents || []).length;
+    ContinuationToken = page.NextContinuationToken;
+  } while (ContinuationToken && listed < MAX_LISTED_KEYS);
+
+  return files;
+};
+
+/**
+ * The first `SAMPLE_BYTES` of a file as text, decompressing gzip files. A sample that stops
+ * before the end of the file is cut after its last complete line.
+ */
+const readTextSample = (s3: S3, Bucket: string, file: S3File, ExpectedBucketOwner?: string) =>
+  new Promise<string>((resolve, reject) => {
+    const gzipped = /\.gz$/i.test(file.key);
+    const source = s3.getObject({
+      Bucket,
+      Key: file.key,
+      ExpectedBucketOwner,
+      Range: gzipped ? undefined : `bytes=0-${SAMPLE_BYTES - 1}`,
+    }).createReadStream();
+    const stream = gzipped ? source.pipe(zlib.createGunzip()) : source;
+    const decoder = new StringDecoder('utf8');
+    let text = '';
+    let done = false;
+
+    const finish = (truncated: boolean) => {
+      if (done) return;
+      done = true;
+      source.destroy();
+      resolve(truncated ? text.substr(0, text.lastIndexOf('\n') + 1) : text);
+    };
+    const fail = (error: Error) => {
+      if (done) return;
+      done = true;
+      reject(error);
+    };
+
+    stream.on('data', (chunk: Buffer) => {
+      if (done) return;
+      text += decoder.write(chunk);
+      if (text.length >= SAMPLE_BYTES) finish(true);
+    });
+    stream.on('end', () => {
+      text += decoder.end();
+      finish(!gzipped && file.size > SAMPLE_BYTES);
+    });
+    source.on('error', fail);
+    stream.on('error', fail);
+  });
+
+const readRange = async (s3: S3, Bucket: string, Key: string, start: number, end: number, ExpectedBucketOwner?: string) =>
+  <Buffer>(await s3.getObject({ Bucket, Key, Range: `bytes=${start}-${end}`, ExpectedBucketOwner }).promise()).Body;
+
+const readParquetSchema = async (s3: S3, Bucket: string, file: S3File, ExpectedBucketOwner?: string) => {
+  const tailStart = file.size - PARQUET_TAIL_LENGTH;
+  const length = parquetFooterLength(await readRange(s3, Bucket, file.key, tailStart, file.size - 1, ExpectedBucketOwner));
+  const footer = await readRange(s3, Bucket, file.key, tailStart - length, tailStart - 1, ExpectedBucketOwner);
+  return readParquetColumns(footer).columns;
+};
+
+/** format of files without a known extension, from their first bytes */
+const sniffFormat = async (s3: S3, Bucket: string, file: S3File, ExpectedBucketOwner?: string): Promise<DataFormat> => {
+  if (!/\.gz$/i.test(file.key) && file.size > PARQUET_TAIL_LENGTH) {
+    const magic = await readRange(s3, Bucket, file.key, 0, 3, ExpectedBucketOwner);
+    if (magic.toString('latin1') === 'PAR1') return 'PARQUET';
+  }
+  const sample = await readTextSample(s3, Bucket, file, ExpectedBucketOwner);
+  return /^\s*\{/.test(sample) ? 'JSON' : 'CSV';
+};
+
+/** up to `SAMPLE_FILES` files: the first, the last and the ones in between */
+const spread = <T>(items: T[]) => {
+  if (items.length <= SAMPLE_FILES) return items;
+  const picked: T[] = [];
+  for (let i = 0; i < SAMPLE_FILES; i++) {
+    picked.push(items[Math.round(i * (items.length - 1) / (SAMPLE_FILES - 1))]);
+  }
+  return picked;
+};
+
+const detectDelimiter = (sample: string, key: string) => {
+  if (/\.tsv(\.gz)?$/i.test(key)) return '\t';
+  const header = sample.substr(0, sample.indexOf('\n') >= 0 ? sample.indexOf('\n') : sample.length);
+  const counts = DELIMITERS.map((delimiter) => header.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] ? DELIMITERS[best] : ',';
+};
+
+/**
+ * Columns of CSV files with a header row. The column names come from the first file.
+ */
+const inferCsvColumns = (samples: string[], delimiter: string) => {
+  let names: string[];
+  const types: InferredType[] = [];
+
+  samples.forEach((sample) => {
+    const parser = new CsvParser(delimiter);
+    const [header, ...rows] = [...parser.write(sample), ...parser.end()];
+    if (!header) return;
+    names = names || columnNames(header);
+    rows.forEach((row) => row.forEach((value, i) => {
+      if (i < names.length) types[i] = mergeTypes(types[i] || UNKNOWN, value === undefined ? UNKNOWN : inferText(value, true));
+    }));
+  });
+
+  return (names || []).map((name, i) => ({ name, type: hiveType(types[i] || UNKNOWN) }));
+};
+
+/**
+ * Columns of JSON lines files: the fields of all the sampled objects, in the order they were first seen.
+ */
+const inferJsonColumns = (samples: string[]) => {
+  let fields: InferredField[] = [];
+
+  samples.forEach((sample) => {
+    if (/^\s*\[/.test(sample)) {
+      throw new Error('Athena reads JSON files with one object per line, not JSON arrays.');
+    }
+    sample.split('\n').filter((line) => line.trim()).forEach((line) => {
+      let row: any;
+      try {
+        row = JSON.parse(line);
+      } catch (e) {
+        return;
+      }
+      const type = inferJson(row);
+      if (type.kind === 'struct') fields = mergeFields(fields, type.fields);
+    });
+  });
+
+  return fields.map((field) => ({ name: field.name, type: hiveType(field.type) }));
+};
+
+/**
+ * Hive-style partitions from the folders between the prefix and the files, like `year=2020/month=01/`.
+ * The layout of the first file is used; files in other folders don't add values.
+ */
+const inferPartitions = (files: S3File[], prefix: string): InferredPartition[] => {
+  const layouts = files.map((file) => file.key.substr(prefix.length).split('/').slice(0, -1).filter(Boolean)
+    .map((segment) => /^([^=]+)=(.*)$/.exec(segment)));
+  const first = layouts[0] || [];
+  if (!first.length || first.some((match) => !match)) return [];
+
+  const keys = first.map((match) => match[1]);
+  const values = keys.map(() => new Set<string>());
+  layouts.forEach((layout) => {
+    if (layout.length !== keys.length || layout.some((match, i) => !match || match[1] !== keys[i])) return;
+    layout.forEach((match, i) => {
+      try {
+        values[i].add(decodeURIComponent(match[2]));
+      } catch (e) {
+        values[i].add(match[2]);
+      }
+    });
+  });
+
+  return keys.map((key, i) => {
+    const found: string[] = [];
+    values[i].forEach((value) => found.push(value));
+    found.sort();
+    const type = found
+      .filter((value) => value !== HIVE_DEFAULT_PARTITION)
+      .map((value) => inferText(value, true))
+      .reduce(mergeTypes, UNKNOWN);
+    const name = hiveType(type);
+    return {
+      name: key.toLowerCase(),
+      key,
+      // other types are kept as strings, which partition projection supports as enums
+      type: name === 'int' || name === 'bigint' || name === 'date' ? name : 'string',
+      values: found,
+    };
+  });
+};
+
+/**
+ * Infers the columns, format and partitions of a table over the data files under an S3 prefix,
+ * reading the header of a few CSV files, the first lines of JSON lines files or the footer of Parquet files.
+ */
+export const sampleTable = async (s3: S3, location: string, expectedBucketOwner?: string): Promise<InferredTable> => {
+  const normalized = location.trim().replace(/\/*$/, '/');
+  const { Bucket, Key: prefix } = parseS3Uri(normalized);
+
+  const files = (await listDataFiles(s3, Bucket, prefix, expectedBucketOwner)).filter((file) => !UNSUPPORTED_COMPRESSION.test(file.key));
+  if (!files.length) {
+    throw new Error(`There are no uncompressed or gzip compressed data files under ${normalized}.`);
+  }
+
+  const counts: { [format: string]: number } = {};
+  files.forEach((file) => {
+    const format = formatOf(file.key);
+    if (format) counts[format] = (counts[format] || 0) + 1;
+  });
+  let format = <DataFormat>Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0];
+  const candidates = format ? files.filter((file) => formatOf(file.key) === format) : files;
+  if (!format) {
+    format = await sniffFormat(s3, Bucket, candidates[0], expectedBucketOwner);
+  }
+  const sampled = spread(candidates);
+
+  const table: InferredTable = {
+    location: normalized,
+    format,
+    columns: [],
+    partitions: inferPartitions(candidates, prefix),
+    sampledFiles: sampled.map((file) => `s3://${Bucket}/${file.key}`),
+    fileCount: candidates.length,
+  };
+
+  if (format === 'PARQUET') {
+    for (const file of sampled) {
+      (await readParquetSchema(s3, Bucket, file, expectedBucketOwner)).forEach((column) => {
+        const name = column.name.toLowerCase();
+        if (!table.columns.some((existing) => existing.name === name)) table.columns.push({ name, type: column.type });
+      });
+    }
+  } else {
+    const samples: string[] = [];
+    for (const file of sampled) samples.push(await readTextSample(s3, Bucket, file, expectedBucketOwner));
+
+    if (format === 'JSON') {
+      table.columns = inferJsonColumns(samples);
+    } else {
+      table.delimiter = detectDelimiter(samples[0], sampled[0].key);
+      table.quoted = samples.some((sample) => sample.indexOf('"') >= 0);
+      table.columns = inferCsvColumns(samples, table.delimiter);
+    }
+  }
+
+  // partition columns aren't stored in the files, but drop any data column of the same name
+  table.columns = table.columns.filter((column) => !table.partitions.some((partition) => partition.name === column.name));
+  if (!table.columns.length) {
+    throw new Error(`No columns could be inferred from ${table.sampledFiles.join(', ')}.`);
+  }
+  return table;
+};
+
+const hiveString = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+
+/**
+ * Partition projection properties: integer and date ranges from the values found, enums otherwise.
+ */
+const projectionProperties = (table: InferredTable) => {
+  const properties: [string, string][] = [['projection.enabled', 'true']];
+
+  table.partitions.forEach((partition) => {
+    const key = `projection.${partition.name}`;
+    const values = partition.values.filter((value) => value !== HIVE_DEFAULT_PARTITION);
+    if (partition.type === 'int' || partition.type === 'bigint') {
+      const numbers = values.map(Number);
+      properties.push([`${key}.type`, 'integer'], [`${key}.range`, `${Math.min(...numbers)},${Math.max(...numbers)}`]);
+    } else if (partition.type === 'date') {
+      properties.push(
+        [`${key}.type`, 'date'],
+        [`${key}.range`, `${values[0]},NOW`],
+        [`${key}.format`, 'yyyy-MM-dd'],
+        [`${key}.interval`, '1'],
+        [`${key}.interval.unit`, 'DAYS'],
+      );
+    } else {
+      properties.push([`${key}.type`, 'enum'], [`${key}.values`, values.join(',')]);
+    }
+  });
+  properties.push([
+    'storage.location.template',
+    `${table.location}${table.partitions.map((partition) => `${partition.key}=\${${partition.name}}`).join('/')}/`,
+  ]);
+
+  return properties;
+};
+
+/**
+ * `CREATE EXTERNAL TABLE` statement for an inferred table. Without partition projection it is followed
+ * by `MSCK REPAIR TABLE`, which loads the partitions found.
+ */
+export const createTableStatement = (table: InferredTable, options: CreateTableOptions) => {
+  const name = hiveQualifiedName(options.database, options.table);
+  const indent = (lines: string[]) => lines.map((line) => `  ${line}`).join(',\n');
+  // OpenCSVSerde only reads timestamps written as epoch milliseconds
+  const columnType = (column: InferredColumn) => table.format === 'CSV' && table.quoted && column.type === 'timestamp' ? 'string' : column.type;
+  const properties: [string, string][] = [];
+  const lines = [
+    `-- Inferred from ${table.sampledFiles.length} of the ${table.fileCount} ${table.format} files under ${table.location}`,
+    `CREATE EXTERNAL TABLE ${name} (`,
+    indent(table.columns.map((column) => `${hiveQualifiedName(column.name)} ${columnType(column)}`)),
+    ')',
+  ];
+
+  if (table.partitions.length) {
+    lines.push('PARTITIONED BY (', indent(table.partitions.map((partition) => `${hiveQualifiedName(partition.name)} ${partition.type}`)), ')');
+  }
+
+  switch (table.format) {
+    case 'CSV':
+      if (table.quoted) {
+        lines.push(
+          'ROW FORMAT SERDE \'org.apache.hadoop.hive.serde2.OpenCSVSerde\'',
+          `WITH SERDEPROPERTIES ('separatorChar' = ${hiveString(table.delimiter)}, 'quoteChar' = '"')`,
+        );
+      } else {
+        lines.push('ROW FORMAT DELIMITED', `  FIELDS TERMINATED BY ${table.delimiter === '\t' ? '\'\\t\'' : hiveString(table.delimiter)}`);
+      }
+      properties.push(['skip.header.line.count', '1']);
+      break;
+    case 'JSON':
+      lines.push('ROW FORMAT SERDE \'org.openx.data.jsonserde.JsonSerDe\'');
+      break;
+    case 'PARQUET':
+      lines.push('STORED AS PARQUET');
+      break;
+  }
+  lines.push(`LOCATION ${hiveString(table.location)}`);
+
+  if (options.projection && table.partitions.length) {
+    properties.push(...projectionProperties(table));
+  }
+  if (properties.length) {
+    lines.push('TBLPROPERTIES (', indent(properties.map(([key, value]) => `${hiveString(key)} = ${hiveString(value)}`)), ')');
+  }
+
+  const statement = `${lines.join('\n')};\n`;
+  return table.partitions.length && !options.projection ? `${statement}\nMSCK REPAIR TABLE ${name};\n` : statement;
+};
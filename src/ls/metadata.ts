@@ -0,0 +1,104 @@
+import { Athena } from 'aws-sdk';
+import AthenaClient from './client';
+
+interface CacheEntry<T> {
+  value?: T;
+  pending?: Promise<T>;
+  expiresAt: number;
+}
+
+export const DEFAULT_CATALOG = 'AwsDataCatalog';
+
+/**
+ * Per-connection cache of catalog metadata used by intellisense and quick picks.
+ * Entries live for `ttl` milliseconds and concurrent lookups of the same key share a single request.
+ */
+export default class MetadataCache {
+  private entries = new Map<string, CacheEntry<any>>();
+
+  constructor(private readonly open: () => Promise<AthenaClient>, private readonly ttl: number) { }
+
+  public getDatabases(catalog: string): Promise<string[]> {
+    return this.remember(`databases:${catalog}`, async () => {
+      const db = await this.open();
+      const databases: string[] = [];
+      let nextToken: string | undefined;
+
+      do {
+        const result = await db.request((athena) => athena.listDatabases({ CatalogName: catalog, NextToken: nextToken }));
+        result.DatabaseList.forEach((database) => databases.push(database.Name));
+        nextToken = result.NextToken;
+      } while (nextToken);
+
+      return databases;
+    });
+  }
+
+  public getTables(catalog: string, database: string): Promise<Athena.TableMetadata[]> {
+    return this.remember(`tables:${catalog}.${database}`, async () => {
+      const db = await this.open();
+      const tables: Athena.TableMetadata[] = [];
+      let nextToken: string | undefined;
+
+      do {
+        const result = await db.request((athena) => athena.listTableMetadata({
+          CatalogName: catalog,
+          DatabaseName: database,
+          NextToken: nextToken,
+        }));
+        tables.push(...(result.TableMetadataList || []));
+        nextToken = result.NextToken;
+      } while (nextToken);
+
+      return tables;
+    });
+  }
+
+  /**
+   * Finds a table by name. When `database` is not given every database of the catalog is searched.
+   */
+  public async findTable(catalog: string, database: string | undefined, table: string) {
+    const databases = database ? [database] : await this.getDatabases(catalog);
+    const name = table.toLowerCase();
+
+    for (const databaseName of databases) {
+      const tables = await this.getTables(catalog, databaseName);
+      const found = tables.find((t) => t.Name.toLowerCase() === name);
+      if (found) {
+        return { database: databaseName, table: found };
+      }
+    }
+
+    return null;
+  }
+
+  public clear() {
+    this.entries.clear();
+  }
+
+  private remember<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const entry: CacheEntry<T> = this.entries.get(key);
+
+    if (entry?.pending) {
+      return entry.pending;
+    }
+    if (entry && entry.expiresAt > now) {
+      return Promise.resolve(entry.value);
+    }
+
+    const pending = loader().then(
+      (value) => {
+        this.entries.set(key, { value, expiresAt: Date.now() + this.ttl });
+        return value;
+      },
+      (error) => {
+        this.entries.delete(key);
+        throw error;
+      },
+    );
+    this.entries.set(key, { pending, expiresAt: 0 });
+
+    return pending;
+  }
+}
@@ -0,0 +1,148 @@
+import { S3 } from 'aws-sdk';
+import { StringDecoder } from 'string_decoder';
+
+export type CsvRow = (string | undefined)[];
+
+/**
+ * Splits an `s3://bucket/key` uri into the bucket and key.
+ */
+export const parseS3Uri = (uri: string) => {
+  const match = /^s3:\/\/([^/]+)\/?(.*)$/.exec(uri || '');
+  if (!match) {
+    throw new Error(`"${uri}" is not an S3 location.`);
+  }
+  return { Bucket: match[1], Key: match[2] };
+};
+
+/**
+ * Incremental parser for the CSV files Athena writes: every value is quoted, doubled quotes escape
+ * a quote, and NULL is an empty unquoted field, which is returned as `undefined`.
+ * Other delimiters than a comma are used to sample data files.
+ */
+export class CsvParser {
+  constructor(private readonly delimiter = ',') { }
+
+  private row: CsvRow = [];
+  private field = '';
+  private quoted = false;
+  private inQuotes = false;
+  private pendingQuote = false;
+
+  public write(chunk: string): CsvRow[] {
+    const rows: CsvRow[] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.inQuotes) {
+        if (this.pendingQuote) {
+          this.pendingQuote = false;
+          if (char === '"') {
+            this.field += char;
+            continue;
+          }
+          this.inQuotes = false;
+        } else if (char === '"') {
+          this.pendingQuote = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && !this.field) {
+        this.inQuotes = true;
+        this.quoted = true;
+      } else if (char === this.delimiter) {
+        this.pushField();
+      } else if (char === '\n') {
+        this.pushField();
+        rows.push(this.row);
+        this.row = [];
+      } else if (char !== '\r') {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  public end(): CsvRow[] {
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      this.inQuotes = false;
+    }
+    if (!this.row.length && !this.field && !this.quoted) {
+      return [];
+    }
+    this.pushField();
+    const row = this.row;
+    this.row = [];
+    return [row];
+  }
+
+  private pushField() {
+    this.row.push(this.field || this.quoted ? this.field : undefined);
+    this.field = '';
+    this.quoted = false;
+  }
+}
+
+/**
+ * Streams a CSV result file from S3, keeping at most `maxRows` data rows (the header row is not counted).
+ * The download stops as soon as the limit is passed.
+ */
+export const readCsvFromS3 = (s3: S3, location: string, maxRows: number, expectedBucketOwner?: string) =>
+  new Promise<{ header: CsvRow, rows: CsvRow[], truncated: boolean }>((resolve, reject) => {
+    const stream = s3.getObject({ ...parseS3Uri(location), ExpectedBucketOwner: expectedBucketOwner }).createReadStream();
+    const decoder = new StringDecoder('utf8');
+    const parser = new CsvParser();
+    const rows: CsvRow[] = [];
+    let header: CsvRow | null = null;
+    let done = false;
+
+    const finish = (truncated: boolean) => {
+      if (done) return;
+      done = true;
+      resolve({ header: header || [], rows, truncated });
+    };
+
+    const collect = (parsed: CsvRow[]) => {
+      for (const row of parsed) {
+        if (!header) {
+          header = row;
+        } else if (rows.length < maxRows) {
+          rows.push(row);
+        } else {
+          stream.destroy();
+          finish(true);
+          return;
+        }
+      }
+    };
+
+    stream.on('data', (chunk: Buffer) => {
+      if (!done) collect(parser.write(decoder.write(chunk)));
+    });
+    stream.on('end', () => {
+      if (done) return;
+      collect(parser.write(decoder.end()));
+      collect(parser.end());
+      finish(false);
+    });
+    stream.on('error', (error) => {
+      if (!done) {
+        done = true;
+        reject(error);
+      }
+    });
+  });
+
+/**
+ * Reads the start of a text file from S3, at most `maxBytes` of it.
+ */
+export const readTextFromS3 = async (s3: S3, location: string, maxBytes: number, expectedBucketOwner?: string) => {
+  const { Body } = await s3.getObject({ ...parseS3Uri(location), Range: `bytes=0-${maxBytes - 1}`, ExpectedBucketOwner: expectedBucketOwner }).promise();
+  return new StringDecoder('utf8').end(<Buffer>Body);
+};
@@ -0,0 +1,81 @@
+import { tokenize } from './statements';
+
+export interface Placeholder {
+  /** name of a `:name` placeholder, empty for `?` */
+  name: string;
+  start: number;
+  length: number;
+}
+
+/**
+ * Finds `?` and `:name` placeholders outside string literals, quoted identifiers and comments.
+ */
+export const findPlaceholders = (sql: string): Placeholder[] => {
+  const placeholders: Placeholder[] = [];
+
+  tokenize(sql)
+    .filter((token) => token.type === 'code')
+    .forEach((token) => {
+      const pattern = /\?|(^|[^:\w]):([a-z_]\w*)/gi;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(token.text))) {
+        if (match[0] === '?') {
+          placeholders.push({ name: '', start: token.start + match.index, length: 1 });
+        } else {
+          const start = token.start + match.index + match[1].length;
+          placeholders.push({ name: match[2], start, length: match[2].length + 1 });
+        }
+      }
+    });
+
+  return placeholders;
+};
+
+/**
+ * Replaces named placeholders with `?`, the only kind `ExecutionParameters` binds.
+ * A name used more than once gets one `?` (and one parameter) per use.
+ */
+export const toPositional = (sql: string, placeholders: Placeholder[]) => placeholders
+  .slice()
+  .sort((a, b) => b.start - a.start)
+  .reduce((text, { start, length }) => `${text.substr(0, start)}?${text.substr(start + length)}`, sql);
+
+export const isPrepare = (sql: string) => /^\s*prepare\s/i.test(stripLeadingComments(sql));
+
+/**
+ * Name of the prepared statement run by `EXECUTE name` when it has no `USING` clause.
+ */
+export const executedStatementName = (sql: string) => {
+  const match = /^\s*execute\s+("(?:[^"]|"")+"|\w+)\s*$/i.exec(stripLeadingComments(sql));
+  return match ? match[1].replace(/^"|"$/g, '').replace(/""/g, '"') : null;
+};
+
+const stripLeadingComments = (sql: string) => {
+  const tokens = tokenize(sql);
+  const first = tokens.findIndex((token) => token.type !== 'comment' && token.text.trim() !== '');
+  return first === -1 ? '' : sql.substr(tokens[first].start);
+};
+
+const INTERVAL_FIELD = '(year|month|day|hour|minute|second)';
+
+/** `INTERVAL '2' DAY` or `INTERVAL '1-6' YEAR TO MONTH` */
+const INTERVAL_LITERAL = new RegExp(`^interval\\s*'([^']|'')*'(\\s+${INTERVAL_FIELD}(\\s+to\\s+${INTERVAL_FIELD})?)?$`, 'i');
+
+/**
+ * Turns a value typed by the user into a SQL literal. Numbers, booleans, NULL, quoted strings and
+ * typed literals like `DATE '2024-01-31'` are kept as they are, but only when the whole value is one of them;
+ * anything else, like `DATE '2024-01-31' OR 1=1`, becomes a quoted string.
+ */
+export const toSqlLiteral = (value: string) => {
+  const trimmed = value.trim();
+  if (
+    /^-?\d+(\.\d+)?(e-?\d+)?$/i.test(trimmed)
+    || /^(true|false|null)$/i.test(trimmed)
+    || /^'([^']|'')*'$/.test(trimmed)
+    || /^(date|time|timestamp|decimal|x)\s*'([^']|'')*'$/i.test(trimmed)
+    || INTERVAL_LITERAL.test(trimmed)
+  ) {
+    return trimmed;
+  }
+  return `'${value.replace(/'/g, '\'\'')}'`;
+};
@@ -0,0 +1,496 @@
+/**
+ * Just enough of the Parquet format to save a result set and to read the schema of a file. Files are
+ * written with one row group, one uncompressed PLAIN data page per column, every column optional.
+ * Metadata is (de)serialized with the Thrift compact protocol.
+ */
+
+const MAGIC = Buffer.from('PAR1');
+
+/** Thrift compact protocol type ids */
+enum CompactType {
+  BOOLEAN_TRUE = 1,
+  BOOLEAN_FALSE = 2,
+  BYTE = 3,
+  I16 = 4,
+  I32 = 5,
+  I64 = 6,
+  DOUBLE = 7,
+  BINARY = 8,
+  LIST = 9,
+  SET = 10,
+  MAP = 11,
+  STRUCT = 12,
+}
+
+type ThriftValue =
+  | { type: CompactType.I32 | CompactType.I64, value: number }
+  | { type: CompactType.BINARY, value: Buffer }
+  | { type: CompactType.LIST, elementType: CompactType, value: ThriftValue[] }
+  | { type: CompactType.STRUCT, value: ThriftStruct };
+
+/** fields of a Thrift struct by field id; undefined fields are left out */
+type ThriftStruct = { [fieldId: number]: ThriftValue | undefined };
+
+const i32 = (value: number): ThriftValue => ({ type: CompactType.I32, value });
+const i64 = (value: number): ThriftValue => ({ type: CompactType.I64, value });
+const binary = (value: string): ThriftValue => ({ type: CompactType.BINARY, value: Buffer.from(value, 'utf8') });
+const struct = (value: ThriftStruct): ThriftValue => ({ type: CompactType.STRUCT, value });
+const list = (elementType: CompactType, value: ThriftValue[]): ThriftValue => ({ type: CompactType.LIST, elementType, value });
+
+/**
+ * Unsigned LEB128. Uses arithmetic rather than bit operations, so values up to 2^53 are encoded right.
+ */
+const varint = (value: number) => {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+};
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+const encodeValue = (value: ThriftValue, out: number[]) => {
+  switch (value.type) {
+    case CompactType.I32:
+    case CompactType.I64:
+      out.push(...varint(zigzag(value.value)));
+      break;
+    case CompactType.BINARY:
+      out.push(...varint(value.value.length));
+      for (const byte of value.value) out.push(byte);
+      break;
+    case CompactType.LIST:
+      out.push(value.value.length < 15
+        ? (value.value.length << 4) | value.elementType
+        : 0xf0 | value.elementType);
+      if (value.value.length >= 15) out.push(...varint(value.value.length));
+      value.value.forEach((element) => encodeValue(element, out));
+      break;
+    case CompactType.STRUCT:
+      encodeStruct(value.value, out);
+      break;
+  }
+};
+
+const encodeStruct = (fields: ThriftStruct, out: number[]) => {
+  let lastFieldId = 0;
+  Object.keys(fields)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach((fieldId) => {
+      const value = fields[fieldId];
+      if (value === undefined) return;
+      const delta = fieldId - lastFieldId;
+      if (delta > 0 && delta <= 15) {
+        out.push((delta << 4) | value.type);
+      } else {
+        out.push(value.type, ...varint(zigzag(fieldId)));
+      }
+      encodeValue(value, out);
+      lastFieldId = fieldId;
+    });
+  out.push(0);
+};
+
+const serialize = (fields: ThriftStruct) => {
+  const out: number[] = [];
+  encodeStruct(fields, out);
+  return Buffer.from(out);
+};
+
+/**
+ * Decoded Thrift struct: fields by id, with integers as numbers, binaries as buffers and lists as arrays.
+ */
+type DecodedStruct = { [fieldId: number]: any };
+
+class CompactReader {
+  constructor(private readonly buffer: Buffer, private offset = 0) { }
+
+  private byte() {
+    if (this.offset >= this.buffer.length) throw new Error('Unexpected end of Parquet metadata.');
+    return this.buffer[this.offset++];
+  }
+
+  private varint() {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * multiplier;
+      if (!(byte & 0x80)) return value;
+      multiplier *= 0x80;
+    }
+  }
+
+  private zigzag() {
+    const value = this.varint();
+    return value % 2 ? -(value + 1) / 2 : value / 2;
+  }
+
+  private value(type: CompactType): any {
+    switch (type) {
+      case CompactType.BOOLEAN_TRUE:
+      case CompactType.BOOLEAN_FALSE:
+        // booleans in lists take a byte, struct fields keep them in the field header
+        return this.byte() === CompactType.BOOLEAN_TRUE;
+      case CompactType.BYTE:
+        return this.byte();
+      case CompactType.I16:
+      case CompactType.I32:
+      case CompactType.I64:
+        return this.zigzag();
+      case CompactType.DOUBLE:
+        this.offset += 8;
+        return this.buffer.readDoubleLE(this.offset - 8);
+      case CompactType.BINARY: {
+        const length = this.varint();
+        this.offset += length;
+        return this.buffer.slice(this.offset - length, this.offset);
+      }
+      case CompactType.LIST:
+      case CompactType.SET: {
+        const header = this.byte();
+        const size = header >> 4 === 15 ? this.varint() : header >> 4;
+        const values = [];
+        for (let i = 0; i < size; i++) values.push(this.value(header & 0x0f));
+        return values;
+      }
+      case CompactType.MAP: {
+        const size = this.varint();
+        if (!size) return [];
+        const types = this.byte();
+        const entries = [];
+        for (let i = 0; i < size; i++) entries.push([this.value(types >> 4), this.value(types & 0x0f)]);
+        return entries;
+      }
+      case CompactType.STRUCT:
+        return this.struct();
+    }
+    throw new Error(`Unknown Thrift type ${type} in Parquet metadata.`);
+  }
+
+  public struct(): DecodedStruct {
+    const fields: DecodedStruct = {};
+    let lastFieldId = 0;
+    for (;;) {
+      const header = this.byte();
+      if (!header) return fields;
+      const type: CompactType = header & 0x0f;
+      const fieldId = header >> 4 ? lastFieldId + (header >> 4) : this.zigzag();
+      fields[fieldId] = type === CompactType.BOOLEAN_TRUE || type === CompactType.BOOLEAN_FALSE
+        ? type === CompactType.BOOLEAN_TRUE
+        : this.value(type);
+      lastFieldId = fieldId;
+    }
+  }
+}
+
+/** parquet.thrift enums */
+const enum ParquetType { BOOLEAN = 0, INT32 = 1, INT64 = 2, INT96 = 3, FLOAT = 4, DOUBLE = 5, BYTE_ARRAY = 6, FIXED_LEN_BYTE_ARRAY = 7 }
+const enum ConvertedType {
+  UTF8 = 0, MAP = 1, MAP_KEY_VALUE = 2, LIST = 3, ENUM = 4, DECIMAL = 5, DATE = 6,
+  TIMESTAMP_MILLIS = 9, TIMESTAMP_MICROS = 10, UINT_8 = 11, UINT_16 = 12, UINT_32 = 13, UINT_64 = 14,
+  INT_8 = 15, INT_16 = 16, JSON = 19,
+}
+/** fields of the `LogicalType` union */
+const enum LogicalType { STRING = 1, MAP = 2, LIST = 3, ENUM = 4, DECIMAL = 5, DATE = 6, TIMESTAMP = 8, INTEGER = 10, JSON = 12 }
+const OPTIONAL = 1;
+const REPEATED = 2;
+const PLAIN = 0;
+const RLE = 3;
+const UNCOMPRESSED = 0;
+const DATA_PAGE = 0;
+
+interface ColumnType {
+  type: ParquetType;
+  convertedType?: ConvertedType;
+  encode: (values: any[]) => Buffer;
+}
+
+const encodeBooleans = (values: boolean[]) => {
+  const buffer = Buffer.alloc(Math.ceil(values.length / 8));
+  values.forEach((value, i) => {
+    if (value) buffer[i >> 3] |= 1 << (i % 8);
+  });
+  return buffer;
+};
+
+const encodeInt64s = (values: number[]) => {
+  const buffer = Buffer.alloc(values.length * 8);
+  values.forEach((value, i) => {
+    buffer.writeUInt32LE(value >>> 0, i * 8);
+    buffer.writeInt32LE(Math.floor(value / 0x100000000), i * 8 + 4);
+  });
+  return buffer;
+};
+
+const encodeDoubles = (values: number[]) => {
+  const buffer = Buffer.alloc(values.length * 8);
+  values.forEach((value, i) => buffer.writeDoubleLE(value, i * 8));
+  return buffer;
+};
+
+const toText = (value: any) => {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const encodeStrings = (values: any[]) => Buffer.concat(values.map((value) => {
+  const bytes = Buffer.from(toText(value), 'utf8');
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length, 0);
+  return Buffer.concat([length, bytes]);
+}));
+
+const STRING: ColumnType = { type: ParquetType.BYTE_ARRAY, convertedType: ConvertedType.UTF8, encode: encodeStrings };
+
+/**
+ * Picks the Parquet type of a column from its values: booleans, integers, numbers and timestamps
+ * when every non-null value is one, text otherwise. Arrays, maps and rows are written as JSON text.
+ */
+const columnType = (values: any[]): ColumnType => {
+  const present = values.filter((value) => value !== null && value !== undefined);
+  if (!present.length) return STRING;
+  if (present.every((value) => typeof value === 'boolean')) {
+    return { type: ParquetType.BOOLEAN, encode: encodeBooleans };
+  }
+  if (present.every((value) => Number.isSafeInteger(value))) {
+    return { type: ParquetType.INT64, encode: encodeInt64s };
+  }
+  if (present.every((value) => typeof value === 'number')) {
+    return { type: ParquetType.DOUBLE, encode: encodeDoubles };
+  }
+  if (present.every((value) => value instanceof Date)) {
+    return {
+      type: ParquetType.INT64,
+      convertedType: ConvertedType.TIMESTAMP_MILLIS,
+      encode: (dates: Date[]) => encodeInt64s(dates.map((date) => date.getTime())),
+    };
+  }
+  return STRING;
+};
+
+/**
+ * Definition levels of an optional column (1 present, 0 null) as RLE runs of the RLE/bit-packed
+ * hybrid encoding, prefixed with their length.
+ */
+const encodeDefinitionLevels = (values: any[]) => {
+  const out: number[] = [];
+  for (let i = 0; i < values.length;) {
+    const level = values[i] === null || values[i] === undefined ? 0 : 1;
+    let run = 1;
+    while (i + run < values.length && (values[i + run] === null || values[i + run] === undefined ? 0 : 1) === level) run++;
+    out.push(...varint(run * 2), level);
+    i += run;
+  }
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(out.length, 0);
+  return Buffer.concat([length, Buffer.from(out)]);
+};
+
+/**
+ * Serializes rows to a Parquet file.
+ */
+export const writeParquet = (columns: string[], rows: { [column: string]: any }[]) => {
+  const chunks: Buffer[] = [MAGIC];
+  let offset = MAGIC.length;
+
+  const columnChunks = columns.map((column) => {
+    const values = rows.map((row) => row[column]);
+    const type = columnType(values);
+    const page = Buffer.concat([
+      encodeDefinitionLevels(values),
+      type.encode(values.filter((value) => value !== null && value !== undefined)),
+    ]);
+    const header = serialize({
+      1: i32(DATA_PAGE),
+      2: i32(page.length),
+      3: i32(page.length),
+      5: struct({
+        1: i32(values.length),
+        2: i32(PLAIN),
+        3: i32(RLE),
+        4: i32(RLE),
+      }),
+    });
+    const dataPageOffset = offset;
+    const size = header.length + page.length;
+    chunks.push(header, page);
+    offset += size;
+
+    return {
+      type,
+      size,
+      chunk: struct({
+        2: i64(dataPageOffset),
+        3: struct({
+          1: i32(type.type),
+          2: list(CompactType.I32, [i32(PLAIN), i32(RLE)]),
+          3: list(CompactType.BINARY, [binary(column)]),
+          4: i32(UNCOMPRESSED),
+          5: i64(values.length),
+          6: i64(size),
+          7: i64(size),
+          9: i64(dataPageOffset),
+        }),
+      }),
+    };
+  });
+
+  const footer = serialize({
+    1: i32(1),
+    2: list(CompactType.STRUCT, [
+      struct({ 4: binary('schema'), 5: i32(columns.length) }),
+      ...columns.map((column, i) => struct({
+        1: i32(columnChunks[i].type.type),
+        3: i32(OPTIONAL),
+        4: binary(column),
+        6: columnChunks[i].type.convertedType === undefined ? undefined : i32(columnChunks[i].type.convertedType),
+      })),
+    ]),
+    3: i64(rows.length),
+    4: list(CompactType.STRUCT, [struct({
+      1: list(CompactType.STRUCT, columnChunks.map(({ chunk }) => chunk)),
+      2: i64(columnChunks.reduce((total, { size }) => total + size, 0)),
+      3: i64(rows.length),
+    })]),
+    6: binary('sqltools-athena-driver'),
+  });
+  const footerLength = Buffer.alloc(4);
+  footerLength.writeUInt32LE(footer.length, 0);
+
+  return Buffer.concat([...chunks, footer, footerLength, MAGIC]);
+};
+
+/** length of the footer length and the closing magic number at the end of a Parquet file */
+export const PARQUET_TAIL_LENGTH = 8;
+
+/**
+ * Length of the footer (the serialized `FileMetaData`) from the last bytes of a Parquet file.
+ */
+export const parquetFooterLength = (tail: Buffer) => {
+  if (tail.length < PARQUET_TAIL_LENGTH || !tail.slice(-4).equals(MAGIC)) {
+    throw new Error('Not a Parquet file.');
+  }
+  return tail.readUInt32LE(tail.length - PARQUET_TAIL_LENGTH);
+};
+
+interface SchemaElement {
+  type?: ParquetType;
+  repetition?: number;
+  name: string;
+  children: SchemaElement[];
+  convertedType?: ConvertedType;
+  scale?: number;
+  precision?: number;
+  logicalType?: DecodedStruct;
+}
+
+/**
+ * Rebuilds the schema tree from its depth-first list, where groups give their number of children.
+ */
+const schemaTree = (elements: DecodedStruct[]) => {
+  let next = 0;
+  const read = (): SchemaElement => {
+    const element = elements[next++];
+    if (!element) throw new Error('Invalid Parquet schema.');
+    const children: SchemaElement[] = [];
+    for (let i = 0; i < (element[5] || 0); i++) children.push(read());
+    return {
+      type: element[1],
+      repetition: element[3],
+      name: String(element[4]),
+      children,
+      convertedType: element[6],
+      scale: element[7],
+      precision: element[8],
+      logicalType: element[10],
+    };
+  };
+  return read();
+};
+
+const decimalType = (element: SchemaElement) => {
+  const decimal = element.logicalType?.[LogicalType.DECIMAL];
+  return `decimal(${decimal?.[2] ?? element.precision ?? 38},${decimal?.[1] ?? element.scale ?? 0})`;
+};
+
+const primitiveType = (element: SchemaElement) => {
+  const logical = element.logicalType || {};
+  const converted = element.convertedType;
+  if (logical[LogicalType.DECIMAL] || converted === ConvertedType.DECIMAL) return decimalType(element);
+
+  switch (element.type) {
+    case ParquetType.BOOLEAN:
+      return 'boolean';
+    case ParquetType.INT32: {
+      const bitWidth = logical[LogicalType.INTEGER]?.[1];
+      if (logical[LogicalType.DATE] || converted === ConvertedType.DATE) return 'date';
+      if (bitWidth === 8 || converted === ConvertedType.INT_8) return 'tinyint';
+      if (bitWidth === 16 || converted === ConvertedType.INT_16 || converted === ConvertedType.UINT_8) return 'smallint';
+      if (converted === ConvertedType.UINT_16) return 'int';
+      if (converted === ConvertedType.UINT_32) return 'bigint';
+      return 'int';
+    }
+    case ParquetType.INT64:
+      if (logical[LogicalType.TIMESTAMP] || converted === ConvertedType.TIMESTAMP_MILLIS || converted === ConvertedType.TIMESTAMP_MICROS) {
+        return 'timestamp';
+      }
+      return converted === ConvertedType.UINT_64 ? 'decimal(20,0)' : 'bigint';
+    case ParquetType.INT96:
+      return 'timestamp';
+    case ParquetType.FLOAT:
+      return 'float';
+    case ParquetType.DOUBLE:
+      return 'double';
+    case ParquetType.BYTE_ARRAY:
+      if (logical[LogicalType.STRING] || logical[LogicalType.ENUM] || logical[LogicalType.JSON]
+        || converted === ConvertedType.UTF8 || converted === ConvertedType.ENUM || converted === ConvertedType.JSON) {
+        return 'string';
+      }
+      return 'binary';
+  }
+  return 'binary';
+};
+
+/**
+ * Hive type of a schema element, ignoring its repetition. Follows the LIST and MAP layouts of the
+ * Parquet spec, including the legacy ones written by older tools.
+ */
+const elementType = (element: SchemaElement): string => {
+  const logical = element.logicalType || {};
+  if (!element.children.length) return primitiveType(element);
+
+  if (logical[LogicalType.LIST] || element.convertedType === ConvertedType.LIST) {
+    const repeated = element.children[0];
+    const item = repeated.children.length === 1 && repeated.name !== 'array' && repeated.name !== `${element.name}_tuple`
+      ? repeated.children[0]
+      : repeated;
+    return `array<${elementType(item)}>`;
+  }
+  if (logical[LogicalType.MAP] || element.convertedType === ConvertedType.MAP || element.convertedType === ConvertedType.MAP_KEY_VALUE) {
+    const [key, value] = element.children[0].children;
+    return `map<${elementType(key)},${value ? elementType(value) : 'string'}>`;
+  }
+  return `struct<${element.children.map((child) => `${child.name.toLowerCase()}:${fieldType(child)}`).join(',')}>`;
+};
+
+/** repeated fields outside of a LIST are arrays */
+const fieldType = (element: SchemaElement) =>
+  element.repetition === REPEATED ? `array<${elementType(element)}>` : elementType(element);
+
+/**
+ * Top-level columns of a Parquet file with their Hive types, read from its footer.
+ */
+export const readParquetColumns = (footer: Buffer) => {
+  const metadata = new CompactReader(footer).struct();
+  const root = schemaTree(metadata[2] || []);
+  return {
+    columns: root.children.map((child) => ({ name: child.name, type: fieldType(child) })),
+    rows: <number>metadata[3],
+  };
+};
@@ -1,12 +1,84 @@
-import { ILanguageServerPlugin } from '@sqltools/types';
+import { ILanguageServerPlugin, NSDatabase } from '@sqltools/types';
 import AthenaDriver from './driver';
-import { DRIVER_ALIASES } from './../constants';
+import { DRIVER_ALIASES, ATHENA_REQUESTS } from './../constants';
+import { getDriver, listDrivers } from './registry';
+import { setServer } from './prompts';
+import { ExportOptions, ResultFileFormat } from './export';
+import { CreateTableOptions, InferredTable } from './inference';
 
 const YourDriverPlugin: ILanguageServerPlugin = {
   register(server) {
     DRIVER_ALIASES.forEach(({ value }) => {
       server.getContext().drivers.set(value, AthenaDriver as any);
     });
+    setServer(server);
+
+    server.onRequest(ATHENA_REQUESTS.LIST_CONNECTIONS, () => listDrivers());
+    server.onRequest(ATHENA_REQUESTS.REFRESH_METADATA, ({ connId }: { connId: string }) => getDriver(connId).refreshMetadata());
+    server.onRequest(ATHENA_REQUESTS.LIST_RUNNING_QUERIES, ({ connId }: { connId: string }) => getDriver(connId).getRunningQueries());
+    server.onRequest(ATHENA_REQUESTS.CANCEL_QUERY, ({ connId, requestId, queryExecutionId }: { connId: string, requestId?: string, queryExecutionId?: string }) =>
+      getDriver(connId).cancelQuery(requestId, queryExecutionId)
+    );
+    server.onRequest(ATHENA_REQUESTS.LIST_PREPARED_STATEMENTS, ({ connId }: { connId: string }) =>
+      getDriver(connId).listPreparedStatements()
+    );
+    server.onRequest(ATHENA_REQUESTS.GET_PREPARED_STATEMENT, ({ connId, statementName }: { connId: string, statementName: string }) =>
+      getDriver(connId).getPreparedStatement(statementName)
+    );
+    server.onRequest(ATHENA_REQUESTS.DELETE_PREPARED_STATEMENT, ({ connId, statementName }: { connId: string, statementName: string }) =>
+      getDriver(connId).deletePreparedStatement(statementName)
+    );
+    server.onRequest(ATHENA_REQUESTS.SHOW_CREATE_STATEMENT, ({ connId, table }: { connId: string, table: NSDatabase.ITable }) =>
+      getDriver(connId).showCreateStatement(table)
+    );
+    server.onRequest(ATHENA_REQUESTS.REPAIR_TABLE, ({ connId, table }: { connId: string, table: NSDatabase.ITable }) =>
+      getDriver(connId).repairTable(table)
+    );
+    server.onRequest(ATHENA_REQUESTS.TIME_TRAVEL_QUERY, ({ connId, snapshot, byTimestamp }: {
+      connId: string,
+      snapshot: { schema: string, database: string, tableName: string, snapshotId: string, committedAt: string },
+      byTimestamp: boolean,
+    }) =>
+      getDriver(connId).icebergTimeTravelQuery(snapshot, byTimestamp)
+    );
+    server.onRequest(ATHENA_REQUESTS.OPTIMIZE_TABLE, ({ connId, table }: { connId: string, table: NSDatabase.ITable }) =>
+      getDriver(connId).optimizeTable(table)
+    );
+    server.onRequest(ATHENA_REQUESTS.VACUUM_TABLE, ({ connId, table }: { connId: string, table: NSDatabase.ITable }) =>
+      getDriver(connId).vacuumTable(table)
+    );
+    server.onRequest(ATHENA_REQUESTS.EXPORT_QUERY, ({ connId, query, options }: { connId: string, query: string, options: ExportOptions }) =>
+      getDriver(connId).exportQuery(query, options)
+    );
+    server.onRequest(ATHENA_REQUESTS.DOWNLOAD_EXPORT, ({ connId, location, directory }: { connId: string, location: string, directory: string }) =>
+      getDriver(connId).downloadExport(location, directory)
+    );
+    server.onRequest(ATHENA_REQUESTS.LIST_LAST_RESULTS, ({ connId }: { connId: string }) => getDriver(connId).listLastResults());
+    server.onRequest(ATHENA_REQUESTS.SAVE_RESULTS, ({ connId, index, format, file }: { connId: string, index: number, format: ResultFileFormat, file: string }) =>
+      getDriver(connId).saveResults(index, format, file)
+    );
+    server.onRequest(ATHENA_REQUESTS.INFER_TABLE, ({ connId, location }: { connId: string, location: string }) =>
+      getDriver(connId).inferTable(location)
+    );
+    server.onRequest(ATHENA_REQUESTS.CREATE_TABLE_STATEMENT, ({ connId, table, options }: { connId: string, table: InferredTable, options: CreateTableOptions }) =>
+      getDriver(connId).createTableStatement(table, options)
+    );
+    server.onRequest(ATHENA_REQUESTS.USE_DATABASE, ({ connId, catalog, database }: { connId: string, catalog?: string, database: string }) =>
+      getDriver(connId).useDatabase(database, catalog)
+    );
+    server.onRequest(ATHENA_REQUESTS.LIST_QUERY_HISTORY, ({ connId }: { connId: string }) => getDriver(connId).listQueryHistory());
+    server.onRequest(ATHENA_REQUESTS.GET_NAMED_QUERY, ({ connId, namedQueryId }: { connId: string, namedQueryId: string }) =>
+      getDriver(connId).getNamedQuery(namedQueryId)
+    );
+    server.onRequest(ATHENA_REQUESTS.CREATE_NAMED_QUERY, ({ connId, namedQuery }: { connId: string, namedQuery: { name: string, description?: string, database?: string, queryString: string } }) =>
+      getDriver(connId).createNamedQuery(namedQuery)
+    );
+    server.onRequest(ATHENA_REQUESTS.UPDATE_NAMED_QUERY, ({ connId, namedQueryId, namedQuery }: { connId: string, namedQueryId: string, namedQuery: { name: string, description?: string, queryString: string } }) =>
+      getDriver(connId).updateNamedQuery(namedQueryId, namedQuery)
+    );
+    server.onRequest(ATHENA_REQUESTS.DELETE_NAMED_QUERY, ({ connId, namedQueryId }: { connId: string, namedQueryId: string }) =>
+      getDriver(connId).deleteNamedQuery(namedQueryId)
+    );
   }
 }
 
@@ -0,0 +1,35 @@
+import { ILanguageServer } from '@sqltools/types';
+import { ATHENA_CLIENT_REQUESTS } from './../constants';
+
+let server: ILanguageServer | null = null;
+
+/**
+ * Keeps the language server around so drivers can ask the extension to prompt the user.
+ */
+export const setServer = (languageServer: ILanguageServer) => {
+  server = languageServer;
+};
+
+/**
+ * Shows a modal confirmation in the editor. Resolves to `true` when the user chooses to go on.
+ */
+export const confirm = async (message: string, action: string): Promise<boolean> => {
+  if (!server) return true;
+  return server.sendRequest(ATHENA_CLIENT_REQUESTS.CONFIRM, { message, action });
+};
+
+/**
+ * Asks the user for a value in an input box. Resolves to `undefined` when the input is dismissed.
+ */
+export const prompt = async (options: { prompt: string, placeHolder?: string, value?: string, password?: boolean }): Promise<string | undefined> => {
+  if (!server) return undefined;
+  return server.sendRequest(ATHENA_CLIENT_REQUESTS.PROMPT, options);
+};
+
+/**
+ * Asks for the values of query parameters, one per name. Resolves to `undefined` when the user gives up.
+ */
+export const promptParameters = async (names: string[]): Promise<string[] | undefined> => {
+  if (!server) return undefined;
+  return server.sendRequest(ATHENA_CLIENT_REQUESTS.PROMPT_PARAMETERS, { names });
+};
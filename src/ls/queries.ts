@@ -1,83 +1,122 @@
-import { IBaseQueries, ContextValue } from '@sqltools/types';
+import { IBaseQueries, ContextValue, NSDatabase } from '@sqltools/types';
 import queryFactory from '@sqltools/base-driver/dist/lib/factory';
+import { DEFAULT_CATALOG } from './metadata';
+import { qualifiedName, quoteIdentifier } from './identifiers';
 
-/** write your queries here go fetch desired data. This queries are just examples copied from SQLite driver */
+/**
+ * Metadata queries read `information_schema`, which every catalog has, including federated ones.
+ * Athena stores catalog, database and table names in lowercase there.
+ */
+
+const literal = (value: string) => `'${String(value).replace(/'/g, '\'\'')}'`;
+
+const lowerLiteral = (value: string) => literal(String(value).toLowerCase());
+
+/** `LIKE` pattern matching `search` anywhere, with `%` and `_` escaped */
+const containsPattern = (search: string) => `${lowerLiteral(`%${search.replace(/[\\%_]/g, '\\$&')}%`)} ESCAPE '\\'`;
+
+const catalogOf = (item?: { schema?: string, [key: string]: any }) => item?.schema || DEFAULT_CATALOG;
+
+const informationSchema = (catalog: string) => `${quoteIdentifier(catalog)}.information_schema`;
+
+const mountTableName = (table: NSDatabase.ITable): string => qualifiedName(catalogOf(table), table.database, table.label);
 
 const describeTable: IBaseQueries['describeTable'] = queryFactory`
   SELECT *
-  FROM information_schema.columns
-  WHERE table_catalog = '${p => p.schema.toLowerCase()}'
-  AND table_schema = '${p => p.database.toLowerCase()}'
-  AND table_name = '${p => p.label.toLowerCase()}'
+  FROM ${p => informationSchema(catalogOf(p))}.columns
+  WHERE table_schema = ${p => lowerLiteral(p.database)}
+  AND table_name = ${p => lowerLiteral(p.label)}
+  ORDER BY ordinal_position
 `;
 
 const fetchColumns: IBaseQueries['fetchColumns'] = queryFactory`
-SELECT *
-FROM information_schema.columns
-WHERE table_catalog = '${p => p.schema.toLowerCase()}'
-AND table_schema = '${p => p.database.toLowerCase()}'
-AND table_name = '${p => p.label.toLowerCase()}'
+SELECT column_name AS label,
+  '${ContextValue.COLUMN}' AS type,
+  data_type AS "dataType",
+  is_nullable = 'YES' AS "isNullable",
+  table_name AS "table",
+  table_schema AS database,
+  ${p => literal(catalogOf(p))} AS schema,
+  '${ContextValue.NO_CHILD}' AS "childType",
+  'column' AS "iconName"
+FROM ${p => informationSchema(catalogOf(p))}.columns
+WHERE table_schema = ${p => lowerLiteral(p.database)}
+AND table_name = ${p => lowerLiteral(p.label)}
+ORDER BY ordinal_position
 `;
 
+/**
+ * Athena only accepts `OFFSET` before `LIMIT`. Every page is ordered by `orderBy` (the table's orderable
+ * columns, filled in by the driver) so that pages neither overlap nor skip rows.
+ */
 const fetchRecords: IBaseQueries['fetchRecords'] = queryFactory`
 SELECT *
-FROM ${p => mountTableName(p)}
-OFFSET ${p => p.offset || 0}
-LIMIT ${p => p.limit || 50};
+FROM ${p => mountTableName(p.table)}
+${p => p.orderBy && p.orderBy.length ? `ORDER BY ${p.orderBy.map(quoteIdentifier).join(', ')}` : ''}
+OFFSET ${p => Number(p.offset) || 0}
+LIMIT ${p => Number(p.limit) || 50}
 `;
 
 const countRecords: IBaseQueries['countRecords'] = queryFactory`
-SELECT count(1) AS total
-FROM ${p => mountTableName(p)};
+SELECT count(*) AS total
+FROM ${p => mountTableName(p.table)}
 `;
 
-const mountTableName = (context): string => {
-  return `${context.table.schema}.${context.table.database}.${context.table.label}`
-}
-
-const fetchTablesAndViews = (type: ContextValue, tableType = 'table'): IBaseQueries['fetchTables'] => queryFactory`
-SELECT name AS label,
-  '${type}' AS type
-FROM sqlite_master
-WHERE LOWER(type) LIKE '${tableType.toLowerCase()}'
-  AND name NOT LIKE 'sqlite_%'
-ORDER BY name
+const fetchTablesAndViews = (type: ContextValue, tableType: string): IBaseQueries['fetchTables'] => queryFactory`
+SELECT table_name AS label,
+  '${type}' AS type,
+  table_schema AS database,
+  ${p => literal(catalogOf(p))} AS schema,
+  ${type === ContextValue.VIEW ? 'true' : 'false'} AS "isView"
+FROM ${p => informationSchema(catalogOf(p))}.tables
+WHERE table_schema = ${p => lowerLiteral(p.database)}
+  AND table_type = '${tableType}'
+ORDER BY table_name
 `;
 
-const fetchTables: IBaseQueries['fetchTables'] = fetchTablesAndViews(ContextValue.TABLE);
-const fetchViews: IBaseQueries['fetchTables'] = fetchTablesAndViews(ContextValue.VIEW , 'view');
+const fetchTables: IBaseQueries['fetchTables'] = fetchTablesAndViews(ContextValue.TABLE, 'BASE TABLE');
+const fetchViews: IBaseQueries['fetchTables'] = fetchTablesAndViews(ContextValue.VIEW, 'VIEW');
 
 const searchTables: IBaseQueries['searchTables'] = queryFactory`
-SELECT name AS label,
-  type
-FROM sqlite_master
-${p => p.search ? `WHERE LOWER(name) LIKE '%${p.search.toLowerCase()}%'` : ''}
-ORDER BY name
+SELECT table_name AS label,
+  CASE table_type WHEN 'VIEW' THEN '${ContextValue.VIEW}' ELSE '${ContextValue.TABLE}' END AS type,
+  table_schema AS database,
+  ${p => literal(catalogOf(p))} AS schema,
+  table_type = 'VIEW' AS "isView"
+FROM ${p => informationSchema(catalogOf(p))}.tables
+WHERE table_schema <> 'information_schema'
+${p => p.search ? `AND lower(table_name) LIKE ${containsPattern(p.search)}` : ''}
+ORDER BY table_name
+LIMIT ${p => Number(p.limit) || 100}
 `;
+
 const searchColumns: IBaseQueries['searchColumns'] = queryFactory`
-SELECT C.name AS label,
-  T.name AS "table",
-  C.type AS dataType,
-  C."notnull" AS isNullable,
-  C.pk AS isPk,
-  '${ContextValue.COLUMN}' as type
-FROM sqlite_master AS T
-LEFT OUTER JOIN pragma_table_info((T.name)) AS C ON 1 = 1
-WHERE 1 = 1
+SELECT column_name AS label,
+  table_name AS "table",
+  data_type AS "dataType",
+  is_nullable = 'YES' AS "isNullable",
+  false AS "isPk",
+  '${ContextValue.COLUMN}' AS type,
+  table_schema AS database,
+  ${p => literal(catalogOf(p.tables.find((t) => !!t.schema)))} AS schema
+FROM ${p => informationSchema(catalogOf(p.tables.find((t) => !!t.schema)))}.columns
+WHERE table_schema <> 'information_schema'
 ${p => p.tables.filter(t => !!t.label).length
-  ? `AND LOWER(T.name) IN (${p.tables.filter(t => !!t.label).map(t => `'${t.label}'`.toLowerCase()).join(', ')})`
+  ? `AND (${p.tables.filter(t => !!t.label).map(t => t.database
+    ? `(table_schema = ${lowerLiteral(t.database)} AND table_name = ${lowerLiteral(t.label)})`
+    : `table_name = ${lowerLiteral(t.label)}`).join(' OR ')})`
   : ''
 }
 ${p => p.search
   ? `AND (
-    LOWER(T.name || '.' || C.name) LIKE '%${p.search.toLowerCase()}%'
-    OR LOWER(C.name) LIKE '%${p.search.toLowerCase()}%'
+    lower(table_name || '.' || column_name) LIKE ${containsPattern(p.search)}
+    OR lower(column_name) LIKE ${containsPattern(p.search)}
   )`
   : ''
 }
-ORDER BY C.name ASC,
-  C.cid ASC
-LIMIT ${p => p.limit || 100}
+ORDER BY column_name ASC,
+  ordinal_position ASC
+LIMIT ${p => Number(p.limit) || 100}
 `;
 
 export default {
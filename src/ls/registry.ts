@@ -0,0 +1,29 @@
+import AthenaDriver from './driver';
+
+/**
+ * Open Athena drivers, so requests coming from the extension can reach the right connection.
+ */
+const drivers = new Map<string, AthenaDriver>();
+
+export const registerDriver = (driver: AthenaDriver) => {
+  drivers.set(driver.getId(), driver);
+};
+
+export const unregisterDriver = (driver: AthenaDriver) => {
+  if (drivers.get(driver.getId()) === driver) {
+    drivers.delete(driver.getId());
+  }
+};
+
+export const listDrivers = () => Array.from(drivers.values()).map((driver) => ({
+  id: driver.getId(),
+  name: driver.credentials.name,
+}));
+
+export const getDriver = (connId: string): AthenaDriver => {
+  const driver = drivers.get(connId) || Array.from(drivers.values()).find((d) => d.credentials.name === connId);
+  if (!driver) {
+    throw new Error(`Athena connection "${connId}" is not open.`);
+  }
+  return driver;
+};
@@ -0,0 +1,206 @@
+import { Athena } from 'aws-sdk';
+import { v4 as generateId } from 'uuid';
+import AthenaClient, { sleep } from './client';
+
+export const DEFAULT_SPARK_MAX_CONCURRENT_DPUS = 20;
+
+/** minutes, also sent as the session's own `SessionIdleTimeoutInMinutes` */
+export const DEFAULT_SPARK_IDLE_TIMEOUT = 15;
+
+const SESSION_ENDED = new Set(['TERMINATING', 'TERMINATED', 'FAILED', 'DEGRADED']);
+const CALCULATION_ENDED = new Set(['COMPLETED', 'FAILED', 'CANCELED']);
+
+export type SparkLanguage = 'Spark SQL' | 'PySpark';
+
+export interface SparkOptions {
+  workgroup: string;
+  maxConcurrentDpus: number;
+  /** minutes without calculations after which the session is terminated */
+  idleTimeout: number;
+}
+
+/**
+ * Whether a workgroup runs Apache Spark calculations rather than SQL queries, from its engine version
+ * (e.g. `PySpark engine version 3`).
+ */
+export const isSparkWorkgroup = (workgroup: Athena.WorkGroup) => {
+  const engine = workgroup.Configuration?.EngineVersion;
+  return /spark/i.test(engine?.EffectiveEngineVersion || engine?.SelectedEngineVersion || '');
+};
+
+/**
+ * Code block of a calculation. Calculations run Python: Spark SQL gets the `%%sql` magic, unless the
+ * code already starts with a magic.
+ */
+export const calculationCode = (code: string, language: SparkLanguage) =>
+  language === 'PySpark' || /^\s*%%/.test(code) ? code : `%%sql\n${code}`;
+
+const isRecord = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const rowsOf = (records: any[]) => {
+  const cols: string[] = [];
+  records.forEach((record) => Object.keys(record).forEach((key) => {
+    if (cols.indexOf(key) < 0) cols.push(key);
+  }));
+  return { cols, rows: records };
+};
+
+/**
+ * Rows of a calculation result file: JSON records (an array or one per line) as a table, IPython
+ * `text/plain` display data or any other text one line per row.
+ */
+export const parseCalculationResult = (text: string): { cols: string[], rows: any[] } => {
+  if (!text.trim()) return { cols: [], rows: [] };
+
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    const lines = text.split('\n').filter((line) => line.trim());
+    try {
+      const records = lines.map((line) => JSON.parse(line));
+      if (records.every(isRecord)) return rowsOf(records);
+    } catch (e) { }
+    value = text;
+  }
+
+  if (isRecord(value) && typeof value['text/plain'] === 'string') value = value['text/plain'];
+  if (Array.isArray(value) && value.length && value.every(isRecord)) return rowsOf(value);
+
+  const output = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return { cols: ['result'], rows: output.replace(/\s+$/, '').split('\n').map((line) => ({ result: line })) };
+};
+
+/**
+ * The Spark session of a connection. It is started by the first calculation, reused by the next ones,
+ * and terminated on `terminate()` or after `idleTimeout` minutes without calculations.
+ */
+export default class SparkSession {
+  private sessionId: Promise<string> | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  /** running calculations, with the id of the request that started them */
+  private running = new Map<string, string | undefined>();
+
+  constructor(private readonly open: () => Promise<AthenaClient>, private readonly options: SparkOptions) { }
+
+  /**
+   * Runs a code block in the session and waits for it to end.
+   */
+  public async calculate(code: string, requestId?: string): Promise<Athena.GetCalculationExecutionResponse> {
+    this.clearIdleTimer();
+    const db = await this.open();
+    let calculationExecutionId: string;
+
+    try {
+      const sessionId = await this.session(db);
+      // one token for every retry, so that a retried call doesn't run the code twice
+      const clientRequestToken = generateId();
+      ({ CalculationExecutionId: calculationExecutionId } = await db.request((athena) => athena.startCalculationExecution({
+        SessionId: sessionId,
+        CodeBlock: code,
+        ClientRequestToken: clientRequestToken,
+      })));
+      this.running.set(calculationExecutionId, requestId);
+
+      let calculation: Athena.GetCalculationExecutionResponse;
+      let poll = 0;
+      do {
+        await sleep(db.pollInterval(poll++));
+        calculation = await db.request((athena) => athena.getCalculationExecution({ CalculationExecutionId: calculationExecutionId }));
+        console.log(`Calculation ${calculationExecutionId} is ${calculation.Status?.State} ${calculation.Statistics?.Progress || ''}`);
+      } while (!CALCULATION_ENDED.has(calculation.Status?.State));
+
+      return calculation;
+    } finally {
+      this.running.delete(calculationExecutionId);
+      this.scheduleIdleTimeout();
+    }
+  }
+
+  /**
+   * Stops the running calculations started for `requestId`, or all of them.
+   */
+  public async cancel(requestId?: string) {
+    const ids = Array.from(this.running.entries())
+      .filter(([, runningRequestId]) => requestId === undefined || runningRequestId === requestId)
+      .map(([id]) => id);
+    if (!ids.length) return 0;
+
+    const db = await this.open();
+    await Promise.all(ids.map((id) => db.request((athena) => athena.stopCalculationExecution({ CalculationExecutionId: id }))));
+    return ids.length;
+  }
+
+  public async terminate() {
+    this.clearIdleTimer();
+    const pending = this.sessionId;
+    this.sessionId = null;
+
+    const sessionId = pending && await pending.catch((): string => null);
+    if (!sessionId) return;
+    try {
+      const db = await this.open();
+      await db.request((athena) => athena.terminateSession({ SessionId: sessionId }));
+    } catch (error) {
+      console.log(`Could not terminate Spark session ${sessionId}: ${error?.message}`);
+    }
+  }
+
+  /**
+   * The id of an idle session, starting one when there is none or the previous one ended,
+   * e.g. after its idle timeout on the Athena side.
+   */
+  private async session(db: AthenaClient): Promise<string> {
+    if (this.sessionId) {
+      const sessionId = await this.sessionId.catch((): string => null);
+      if (sessionId && await this.waitForIdle(db, sessionId)) return sessionId;
+      this.sessionId = null;
+    }
+
+    const starting = this.startSession(db);
+    this.sessionId = starting;
+    return starting;
+  }
+
+  private async startSession(db: AthenaClient) {
+    const clientRequestToken = generateId();
+    const { SessionId: sessionId } = await db.request((athena) => athena.startSession({
+      WorkGroup: this.options.workgroup,
+      Description: 'SQLTools',
+      EngineConfiguration: { MaxConcurrentDpus: this.options.maxConcurrentDpus },
+      SessionIdleTimeoutInMinutes: this.options.idleTimeout,
+      ClientRequestToken: clientRequestToken,
+    }));
+
+    if (!await this.waitForIdle(db, sessionId)) {
+      const { Status } = await db.request((athena) => athena.getSessionStatus({ SessionId: sessionId }));
+      throw new Error(`Spark session ${sessionId} ${(Status?.State || 'ended').toLowerCase()}${Status?.StateChangeReason ? `: ${Status.StateChangeReason}` : '.'}`);
+    }
+    return sessionId;
+  }
+
+  /**
+   * Waits until a session can take a calculation. False when it ended instead.
+   */
+  private async waitForIdle(db: AthenaClient, sessionId: string) {
+    for (let poll = 0; ; poll++) {
+      const { Status } = await db.request((athena) => athena.getSessionStatus({ SessionId: sessionId }));
+      if (Status?.State === 'IDLE') return true;
+      if (SESSION_ENDED.has(Status?.State)) return false;
+      await sleep(db.pollInterval(poll));
+    }
+  }
+
+  private scheduleIdleTimeout() {
+    this.clearIdleTimer();
+    if (this.running.size || !this.sessionId) return;
+    this.idleTimer = setTimeout(() => this.terminate(), this.options.idleTimeout * 60000);
+    // an idle session must not keep the language server running
+    this.idleTimer.unref();
+  }
+
+  private clearIdleTimer() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+  }
+}
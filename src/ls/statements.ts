@@ -0,0 +1,227 @@
+import { splitIdentifier } from './identifiers';
+import { RESULTS_DIRECTIVE } from '../constants';
+
+export type TokenType = 'code' | 'string' | 'identifier' | 'comment';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  /** offset of the token in the scanned text */
+  start: number;
+}
+
+/**
+ * Breaks SQL text into code, string literal, quoted identifier and comment tokens,
+ * so callers can look for `;`, placeholders or keywords in code only.
+ */
+export const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let code = '';
+  let codeStart = 0;
+  let i = 0;
+
+  const push = (type: TokenType, end: number) => {
+    if (code) {
+      tokens.push({ type: 'code', text: code, start: codeStart });
+      code = '';
+    }
+    tokens.push({ type, text: sql.substring(i, end), start: i });
+    i = end;
+    codeStart = end;
+  };
+
+  /** end of a quoted section, where a doubled quote char is an escaped one */
+  const quoted = (quote: string) => {
+    let end = i + 1;
+    while (end < sql.length) {
+      if (sql[end] === quote && sql[end + 1] === quote) {
+        end += 2;
+      } else if (sql[end] === quote) {
+        return end + 1;
+      } else {
+        end++;
+      }
+    }
+    return sql.length;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '\'') {
+      push('string', quoted(char));
+    } else if (char === '"' || char === '`') {
+      push('identifier', quoted(char));
+    } else if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      push('comment', end === -1 ? sql.length : end);
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      push('comment', end === -1 ? sql.length : end + 2);
+    } else {
+      code += char;
+      i++;
+    }
+  }
+  if (code) {
+    tokens.push({ type: 'code', text: code, start: codeStart });
+  }
+
+  return tokens;
+};
+
+/**
+ * Splits a script into statements on `;` outside literals, identifiers and comments.
+ * Statements holding nothing but whitespace and comments are dropped.
+ */
+export const splitStatements = (sql: string): string[] => {
+  const statements: string[] = [];
+  let current: Token[] = [];
+
+  const flush = () => {
+    if (current.some((token) => token.type !== 'comment' && token.text.trim() !== '')) {
+      statements.push(current.map((token) => token.text).join('').trim());
+    }
+    current = [];
+  };
+
+  tokenize(sql).forEach((token) => {
+    if (token.type !== 'code') {
+      current.push(token);
+      return;
+    }
+    const parts = token.text.split(';');
+    parts.forEach((text, i) => {
+      if (i > 0) flush();
+      current.push({ ...token, text });
+    });
+  });
+  flush();
+
+  return statements;
+};
+
+/**
+ * Blanks out string literals and comments, keeping offsets, so the result can be searched with regular expressions.
+ */
+export const maskLiterals = (sql: string) => tokenize(sql)
+  .map((token) => token.type === 'string' || token.type === 'comment' ? token.text.replace(/[^\n]/g, ' ') : token.text)
+  .join('');
+
+export interface TableReference {
+  /** name as written after `FROM` or `JOIN`, e.g. `db.table` or `"db"."table"` */
+  name: string;
+  /**
+   * Code of the query block reading the table: the subquery, or the statement, it is in, cut at `UNION`,
+   * `INTERSECT` and `EXCEPT`. Literals and comments are masked and nested subqueries blanked out.
+   */
+  block: string;
+}
+
+const SUBQUERY = /^\s*\(*\s*(select|with|values)\b/i;
+
+/**
+ * Tables a statement reads, as written after `FROM` and `JOIN`. `FROM` inside function calls, as in
+ * `extract(year FROM col)` or `trim(x FROM y)`, is not a table reference.
+ */
+export const findTableReferences = (sql: string): TableReference[] => {
+  const masked = maskLiterals(sql);
+  // parentheses in quoted identifiers are not groups
+  const code = tokenize(sql).map((token) => token.type === 'code' ? token.text : token.text.replace(/[^\n]/g, ' ')).join('');
+
+  // content offsets of the parenthesized groups
+  const groups: { start: number, end: number, subquery: boolean }[] = [];
+  const open: number[] = [];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === '(') open.push(i + 1);
+    if (code[i] === ')' && open.length) groups.push({ start: open.pop(), end: i, subquery: false });
+  }
+  open.reverse().forEach((start) => groups.push({ start, end: code.length, subquery: false }));
+  groups.forEach((group) => group.subquery = SUBQUERY.test(code.substring(group.start, group.end)));
+
+  const blockAt = (offset: number) => {
+    const scope = groups.filter((group) => group.subquery && group.start <= offset && offset < group.end)
+      .reduce((inner, group) => group.start > inner.start ? group : inner, { start: 0, end: code.length, subquery: true });
+    let block = masked.substring(scope.start, scope.end);
+    groups.filter((group) => group.subquery && group !== scope && group.start > scope.start && group.end <= scope.end)
+      .forEach(({ start, end }) => {
+        block = block.substring(0, start - scope.start) + ' '.repeat(end - start) + block.substring(end - scope.start);
+      });
+
+    const position = offset - scope.start;
+    let blockStart = 0;
+    let blockEnd = block.length;
+    const setOperator = /\b(union|intersect|except)\b/gi;
+    let match: RegExpExecArray | null;
+    while ((match = setOperator.exec(block))) {
+      if (match.index < position) blockStart = match.index + match[0].length;
+      else if (blockEnd === block.length) blockEnd = match.index;
+    }
+    return block.substring(blockStart, blockEnd);
+  };
+
+  const part = '(?:"(?:[^"]|"")*"|`[^`]*`|[\\w$]+)';
+  const pattern = new RegExp(`\\b(from|join)\\s+(${part}(?:\\s*\\.\\s*${part}){0,2})`, 'gi');
+  const references: TableReference[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(masked))) {
+    const offset = match.index;
+    const group = groups.filter((candidate) => candidate.start <= offset && offset < candidate.end)
+      .reduce((inner, candidate) => !inner || candidate.start > inner.start ? candidate : inner, null);
+    if (/^from$/i.test(match[1]) && group && !group.subquery) continue;
+    references.push({ name: match[2], block: blockAt(offset) });
+  }
+
+  return references;
+};
+
+/**
+ * Whether a statement only reads data: a query (`SELECT`, `WITH`, `VALUES`), `SHOW`, `DESCRIBE` or `EXPLAIN`.
+ * `EXPLAIN ANALYZE` runs its statement, so it is read-only when that statement is.
+ */
+export const isReadOnlyStatement = (sql: string): boolean => {
+  const code = tokenize(sql).filter((token) => token.type !== 'comment').map((token) => token.text).join('');
+  const analyzed = /^\s*explain\s+analyze\b(?:\s+verbose\b)?([\s\S]*)$/i.exec(code);
+  if (analyzed) return isReadOnlyStatement(analyzed[1]);
+  return /^[\s(]*(select|with|values|show|describe|desc|explain)\b/i.test(code);
+};
+
+/**
+ * Target of a `USE database` or `USE catalog.database` statement, or null for any other statement.
+ */
+export const parseUseStatement = (sql: string): { catalog?: string, database: string } | null => {
+  const code = tokenize(sql).filter((token) => token.type !== 'comment').map((token) => token.text).join('').trim();
+  const match = /^use\s+([\s\S]+?)\s*;?$/i.exec(code);
+  if (!match) return null;
+
+  const parts = splitIdentifier(match[1]);
+  if (parts.length > 2 || parts.some((part) => !part)) return null;
+
+  return parts.length === 2 ? { catalog: parts[0], database: parts[1] } : { database: parts[0] };
+};
+
+/**
+ * Execution id of a `-- athena:results <id>` directive, which reopens the results of a past
+ * execution instead of running anything, or null when the text doesn't start with one.
+ */
+export const parseResultsDirective = (sql: string) => {
+  const match = new RegExp(`^\\s*--\\s*${RESULTS_DIRECTIVE}\\s+([\\w-]+)\\s*(\\n|$)`, 'i').exec(sql);
+  return match ? match[1] : null;
+};
+
+/**
+ * Workgroup named by a `-- workgroup: name` comment before the first code of a statement, or null.
+ */
+export const parseWorkgroupDirective = (sql: string) => {
+  for (const token of tokenize(sql)) {
+    if (token.type === 'comment') {
+      const match = /^--\s*workgroup:\s*(\S+)\s*$/i.exec(token.text);
+      if (match) return match[1];
+    } else if (token.text.trim()) {
+      break;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,131 @@
+import { Athena } from 'aws-sdk';
+
+/**
+ * Integers above `Number.MAX_SAFE_INTEGER` and decimals with more digits than a double can hold
+ * are kept as strings, so no precision is lost.
+ */
+const MAX_SAFE_DECIMAL_PRECISION = 15;
+
+const toInteger = (value: string) => {
+  const number = Number(value);
+  return Number.isSafeInteger(number) ? number : value;
+};
+
+/**
+ * Only timestamps with a zone (`yyyy-MM-dd HH:mm:ss.SSS zone`) are converted, and only when a `Date` holds
+ * them exactly: zones given by name (e.g. `America/New_York`) can't be resolved here, and a `Date` has
+ * millisecond precision, so those values stay strings. DATE and zone-less TIMESTAMP values keep Athena's text,
+ * as a `Date` would add a time or a zone they don't have.
+ */
+const toTimestampWithTimeZone = (value: string) => {
+  const match = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}(?:\.\d{1,3})?) (.+)$/.exec(value);
+  if (!match) return value;
+
+  const [, date, time, zone] = match;
+  let offset = 'Z';
+  if (zone !== 'UTC' && zone !== 'Z') {
+    if (!/^[+-]\d{2}:\d{2}$/.test(zone)) return value;
+    offset = zone;
+  }
+  const timestamp = new Date(`${date}T${time}${offset}`);
+  return isNaN(timestamp.getTime()) ? value : timestamp;
+};
+
+const toScalar = (value: string) => {
+  if (value === 'null') return null;
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?\d+$/.test(value)) return toInteger(value);
+  if (/^-?\d+\.\d+(E-?\d+)?$/i.test(value)) return Number(value);
+  return value;
+};
+
+/**
+ * Parses the text Athena returns for `array`, `map` and `row` values, like `[1, 2]` or `{a=1, b={c=[x]}}`.
+ * Result metadata only says `array`/`map`/`row`, without element types, so leaves are guessed from their text.
+ */
+export const parseComplex = (text: string): any => {
+  let i = 0;
+
+  const parseItem = (): any => {
+    if (text[i] === '[') return parseArray();
+    if (text[i] === '{') return parseObject();
+    return parseLeaf(',]}');
+  };
+
+  const parseLeaf = (stops: string) => {
+    const start = i;
+    while (i < text.length && !stops.includes(text[i])) i++;
+    return toScalar(text.substring(start, i).trim());
+  };
+
+  const skipSeparator = () => {
+    if (text[i] === ',') i++;
+    while (text[i] === ' ') i++;
+  };
+
+  const parseArray = () => {
+    const items = [];
+    i++;
+    while (i < text.length && text[i] !== ']') {
+      items.push(parseItem());
+      skipSeparator();
+    }
+    i++;
+    return items;
+  };
+
+  const parseObject = () => {
+    const object = {};
+    i++;
+    while (i < text.length && text[i] !== '}') {
+      const key = parseLeaf('=,}');
+      if (text[i] === '=') i++;
+      object[String(key)] = parseItem();
+      skipSeparator();
+    }
+    i++;
+    return object;
+  };
+
+  const value = parseItem();
+  return i >= text.length ? value : text;
+};
+
+/**
+ * Converts a cell from its text representation to a JS value, using the column type Athena reports.
+ * `undefined` stands for NULL: Athena leaves `VarCharValue` out of the datum for NULLs.
+ */
+export const parseValue = (value: string | undefined, column: Athena.ColumnInfo) => {
+  if (value === undefined || value === null) return null;
+
+  const type = (column?.Type || '').toLowerCase();
+  switch (type) {
+    case 'tinyint':
+    case 'smallint':
+    case 'integer':
+    case 'int':
+    case 'bigint':
+      return toInteger(value);
+    case 'real':
+    case 'float':
+    case 'double':
+      return Number(value);
+    case 'decimal':
+      return (column.Precision || 0) <= MAX_SAFE_DECIMAL_PRECISION ? Number(value) : value;
+    case 'boolean':
+      return value === 'true';
+    case 'timestamp with time zone':
+      return toTimestampWithTimeZone(value);
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch (e) {
+        return value;
+      }
+    case 'array':
+    case 'map':
+    case 'row':
+      return parseComplex(value);
+  }
+  return value;
+};
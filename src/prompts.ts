@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { ILanguageClient } from '@sqltools/types';
+import { ATHENA_CLIENT_REQUESTS } from './constants';
+
+const RECENT_VALUES_KEY = 'athena.recentParameterValues';
+const MAX_RECENT_VALUES = 10;
+
+/**
+ * Lets the user pick one of the recent values or type a new one.
+ */
+const pickValue = (title: string, recent: string[]) => new Promise<string | undefined>((resolve) => {
+  const recentItems: vscode.QuickPickItem[] = recent.map((label) => ({ label, description: 'recent' }));
+  const quickPick = vscode.window.createQuickPick();
+  let value: string | undefined;
+
+  quickPick.title = title;
+  quickPick.placeholder = 'A value like 42, some text, \'quoted text\' or DATE \'2024-01-31\'';
+  quickPick.ignoreFocusOut = true;
+  quickPick.items = recentItems;
+  quickPick.onDidChangeValue((typed) => {
+    quickPick.items = typed
+      ? [{ label: typed, description: 'new value' }, ...recentItems.filter((item) => item.label !== typed)]
+      : recentItems;
+  });
+  quickPick.onDidAccept(() => {
+    value = quickPick.selectedItems[0]?.label ?? quickPick.value;
+    quickPick.hide();
+  });
+  quickPick.onDidHide(() => {
+    quickPick.dispose();
+    resolve(value);
+  });
+  quickPick.show();
+});
+
+/**
+ * Answers the prompts the language server plugin sends while running queries.
+ */
+export const registerPromptHandlers = (extContext: vscode.ExtensionContext, client: ILanguageClient) => {
+  client.onRequest(ATHENA_CLIENT_REQUESTS.CONFIRM, async ({ message, action }: { message: string, action: string }) =>
+    (await vscode.window.showWarningMessage(message, { modal: true }, action)) === action
+  );
+
+  client.onRequest(ATHENA_CLIENT_REQUESTS.PROMPT, (options: vscode.InputBoxOptions) =>
+    vscode.window.showInputBox({ ignoreFocusOut: true, ...options })
+  );
+
+  client.onRequest(ATHENA_CLIENT_REQUESTS.PROMPT_PARAMETERS, async ({ names }: { names: string[] }) => {
+    const recentValues: { [name: string]: string[] } = extContext.globalState.get(RECENT_VALUES_KEY, {});
+    const values: string[] = [];
+
+    for (const [i, name] of names.entries()) {
+      const value = await pickValue(`Query parameter ${name} (${i + 1}/${names.length})`, recentValues[name] || []);
+      if (value === undefined) return undefined;
+      values.push(value);
+      recentValues[name] = [value, ...(recentValues[name] || []).filter((recent) => recent !== value)].slice(0, MAX_RECENT_VALUES);
+    }
+    await extContext.globalState.update(RECENT_VALUES_KEY, recentValues);
+
+    return values;
+  });
+};
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { BudgetExceededError, QueryCancelledError, QueryFailedError } from '../ls/errors';
+
+describe('QueryFailedError', () => {
+  it('reads Athena\'s error classification and position', () => {
+    const error = new QueryFailedError({
+      QueryExecutionId: 'q1',
+      Query: 'SELECT a,\n  b FROM t',
+      Status: {
+        State: 'FAILED',
+        StateChangeReason: 'COLUMN_NOT_FOUND: line 2:3: Column \'b\' cannot be resolved',
+        AthenaError: { ErrorCategory: 2, ErrorType: 1006, Retryable: false },
+      },
+    });
+
+    assert.strictEqual(error.category, 'User');
+    assert.strictEqual(error.errorType, 1006);
+    assert.strictEqual(error.retryable, false);
+    assert.deepStrictEqual(error.position, { line: 2, column: 3 });
+    assert.strictEqual(error.excerpt(), '  b FROM t\n  ^');
+  });
+
+  it('has no excerpt without a position in the statement', () => {
+    const error = new QueryFailedError({ QueryExecutionId: 'q2', Status: { State: 'FAILED' } });
+    assert.strictEqual(error.message, 'Query "q2" failed.');
+    assert.strictEqual(error.excerpt('SELECT 1'), null);
+
+    const outside = new QueryFailedError({ QueryExecutionId: 'q3', Status: { State: 'FAILED', StateChangeReason: 'line 5:1: oops' } });
+    assert.strictEqual(outside.excerpt('SELECT 1'), null);
+  });
+});
+
+describe('BudgetExceededError', () => {
+  it('is a cancellation', () => {
+    const error = new BudgetExceededError({ QueryExecutionId: 'q4' }, 1024);
+    assert.ok(error instanceof QueryCancelledError);
+    assert.strictEqual(error.message, 'Query "q4" was stopped for scanning more than 1024 bytes.');
+  });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { NSDatabase } from '@sqltools/types';
+import { describe, it } from 'node:test';
+import { exportStatement, serializeResult } from '../ls/export';
+import { PARQUET_TAIL_LENGTH, parquetFooterLength, readParquetColumns } from '../ls/parquet';
+
+describe('exportStatement', () => {
+  it('wraps the query in UNLOAD with the format properties', () => {
+    assert.strictEqual(
+      exportStatement('SELECT * FROM t', { method: 'UNLOAD', format: 'PARQUET', compression: 'SNAPPY', location: 's3://bucket/out/' }),
+      'UNLOAD (\nSELECT * FROM t\n)\nTO \'s3://bucket/out/\'\nWITH (format = \'PARQUET\', compression = \'SNAPPY\')',
+    );
+  });
+
+  it('writes CSV as comma-delimited text, partitioned by the given columns', () => {
+    assert.strictEqual(
+      exportStatement('SELECT a, dt FROM t', { method: 'UNLOAD', format: 'CSV', partitionedBy: ['dt'], location: 's3://bucket/it\'s/' }),
+      'UNLOAD (\nSELECT a, dt FROM t\n)\nTO \'s3://bucket/it\'\'s/\'\nWITH (format = \'TEXTFILE\', field_delimiter = \',\', partitioned_by = ARRAY[\'dt\'])',
+    );
+  });
+
+  it('creates a quoted, qualified table with CTAS', () => {
+    assert.strictEqual(
+      exportStatement('SELECT 1 AS a', { method: 'CTAS', format: 'JSON', location: 's3://bucket/t/' }, ['my-db', 'copy']),
+      'CREATE TABLE "my-db"."copy"\nWITH (format = \'JSON\', external_location = \'s3://bucket/t/\')\nAS\nSELECT 1 AS a',
+    );
+  });
+});
+
+describe('serializeResult', () => {
+  const result = <NSDatabase.IResult>{
+    cols: ['id', 'text', 'at', 'tags'],
+    results: [
+      { id: 1, text: 'a, "b"', at: new Date(Date.UTC(2024, 0, 31)), tags: ['x'] },
+      { id: null, text: 'line\nbreak', at: null, tags: null },
+    ],
+  };
+
+  it('writes CSV with a header row and quoted fields', () => {
+    assert.strictEqual(
+      serializeResult(result, 'CSV').toString('utf8'),
+      'id,text,at,tags\r\n1,"a, ""b""",2024-01-31T00:00:00.000Z,"[""x""]"\r\n,"line\nbreak",,\r\n',
+    );
+  });
+
+  it('writes JSON as an array of objects', () => {
+    assert.deepStrictEqual(JSON.parse(serializeResult(result, 'JSON').toString('utf8'))[1], { id: null, text: 'line\nbreak', at: null, tags: null });
+  });
+
+  it('writes Parquet with the columns of the result', () => {
+    const file = serializeResult(result, 'PARQUET');
+    const tailStart = file.length - PARQUET_TAIL_LENGTH;
+    const footer = file.slice(tailStart - parquetFooterLength(file.slice(tailStart)), tailStart);
+    assert.deepStrictEqual(readParquetColumns(footer).columns.map((column) => column.name), ['id', 'text', 'at', 'tags']);
+  });
+});
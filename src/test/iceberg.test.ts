@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { isIcebergTable, metadataTableQuery, optimizeStatement, timeTravelQuery, vacuumStatement } from '../ls/iceberg';
+
+describe('isIcebergTable', () => {
+  it('reads the table_type parameter', () => {
+    assert.strictEqual(isIcebergTable({ Name: 't', Parameters: { table_type: 'iceberg' } }), true);
+    assert.strictEqual(isIcebergTable({ Name: 't', Parameters: { table_type: 'EXTERNAL_TABLE' } }), false);
+    assert.strictEqual(isIcebergTable({ Name: 't' }), false);
+  });
+});
+
+describe('metadataTableQuery', () => {
+  it('reads the $-suffixed metadata table in the table\'s catalog', () => {
+    assert.strictEqual(
+      metadataTableQuery('lake', 'my db', 'events', 'snapshots'),
+      'SELECT snapshot_id, committed_at, operation, parent_id FROM "lake"."my db"."events$snapshots" ORDER BY committed_at DESC',
+    );
+  });
+});
+
+describe('timeTravelQuery', () => {
+  it('reads a table as of a snapshot or a commit time', () => {
+    assert.strictEqual(
+      timeTravelQuery('lake', 'db', 'events', { snapshotId: '123' }),
+      'SELECT *\nFROM "lake"."db"."events" FOR VERSION AS OF 123\nLIMIT 100;\n',
+    );
+    assert.strictEqual(
+      timeTravelQuery('lake', 'db', 'events', { timestamp: '2024-01-31 10:00:00.000 UTC' }),
+      'SELECT *\nFROM "lake"."db"."events" FOR TIMESTAMP AS OF TIMESTAMP \'2024-01-31 10:00:00.000 UTC\'\nLIMIT 100;\n',
+    );
+  });
+});
+
+describe('optimizeStatement and vacuumStatement', () => {
+  it('qualify the table with its catalog', () => {
+    assert.strictEqual(optimizeStatement('lake', 'db', 'my"events'), 'OPTIMIZE "lake"."db"."my""events" REWRITE DATA USING BIN_PACK');
+    assert.strictEqual(vacuumStatement('lake', 'db', 'events'), 'VACUUM "lake"."db"."events"');
+  });
+
+  it('leave out a missing catalog', () => {
+    assert.strictEqual(vacuumStatement(undefined, 'db', 'events'), 'VACUUM "db"."events"');
+  });
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { hiveQualifiedName, matchesGlob, matchesNameFilter, qualifiedName, quoteIdentifier, splitIdentifier } from '../ls/identifiers';
+
+describe('quoteIdentifier', () => {
+  it('doubles quotes inside the name', () => {
+    assert.strictEqual(quoteIdentifier('my-db'), '"my-db"');
+    assert.strictEqual(quoteIdentifier('a"b'), '"a""b"');
+  });
+});
+
+describe('qualifiedName', () => {
+  it('quotes and joins the non-empty parts', () => {
+    assert.strictEqual(qualifiedName('AwsDataCatalog', 'My DB', 'events'), '"AwsDataCatalog"."My DB"."events"');
+    assert.strictEqual(qualifiedName(undefined, 'db', 'events'), '"db"."events"');
+    assert.strictEqual(qualifiedName('', 'db', 'x"y'), '"db"."x""y"');
+  });
+});
+
+describe('hiveQualifiedName', () => {
+  it('quotes with backticks, doubling backticks inside', () => {
+    assert.strictEqual(hiveQualifiedName('db', 'my`table'), '`db`.`my``table`');
+    assert.strictEqual(hiveQualifiedName('', 'events'), '`events`');
+  });
+});
+
+describe('splitIdentifier', () => {
+  it('splits dotted names, unquoting each part', () => {
+    assert.deepStrictEqual(splitIdentifier('catalog."my.db".table'), ['catalog', 'my.db', 'table']);
+    assert.deepStrictEqual(splitIdentifier('`db`.`a``b`'), ['db', 'a`b']);
+    assert.deepStrictEqual(splitIdentifier('"a""b"'), ['a"b']);
+    assert.deepStrictEqual(splitIdentifier('db.'), ['db', '']);
+  });
+
+  it('reverses qualifiedName', () => {
+    const parts = ['Aws Catalog', 'db"x', 'table.name'];
+    assert.deepStrictEqual(splitIdentifier(qualifiedName(...parts)), parts);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('matches * and ? wildcards, ignoring case', () => {
+    assert.strictEqual(matchesGlob('Events_Raw', '*_raw'), true);
+    assert.strictEqual(matchesGlob('events', 'event?'), true);
+    assert.strictEqual(matchesGlob('events', 'event'), false);
+    assert.strictEqual(matchesGlob('a.b', 'a?b'), true);
+    assert.strictEqual(matchesGlob('axb', 'a.b'), false);
+  });
+});
+
+describe('matchesNameFilter', () => {
+  it('includes everything by default and applies excludes last', () => {
+    assert.strictEqual(matchesNameFilter('events'), true);
+    assert.strictEqual(matchesNameFilter('events', { include: ['ev*'], exclude: ['*_tmp'] }), true);
+    assert.strictEqual(matchesNameFilter('events_tmp', { include: ['ev*'], exclude: ['*_tmp'] }), false);
+    assert.strictEqual(matchesNameFilter('users', { include: ['ev*'] }), false);
+  });
+});
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import { S3 } from 'aws-sdk';
+import { describe, it } from 'node:test';
+import { Readable } from 'stream';
+import * as zlib from 'zlib';
+import { createTableStatement, InferredTable, sampleTable } from '../ls/inference';
+import { writeParquet } from '../ls/parquet';
+
+/**
+ * The part of the S3 client `sampleTable` uses, over objects kept in memory.
+ */
+const fakeS3 = (objects: { [key: string]: string | Buffer }) => {
+  const contentOf = (key: string) => {
+    const content = objects[key];
+    return typeof content === 'string' ? Buffer.from(content) : content;
+  };
+  const bodyOf = (key: string, range?: string) => {
+    const body = contentOf(key);
+    const match = /^bytes=(\d+)-(\d+)$/.exec(range || '');
+    return match ? body.slice(Number(match[1]), Number(match[2]) + 1) : body;
+  };
+
+  return <S3><unknown>{
+    listObjectsV2: ({ Prefix }: S3.ListObjectsV2Request) => ({
+      promise: async () => ({
+        Contents: Object.keys(objects).sort()
+          .filter((key) => key.indexOf(Prefix) === 0)
+          .map((key) => ({ Key: key, Size: contentOf(key).length })),
+      }),
+    }),
+    getObject: ({ Key, Range }: S3.GetObjectRequest) => ({
+      promise: async () => ({ Body: bodyOf(Key, Range) }),
+      createReadStream: () => Readable.from([bodyOf(Key, Range)]),
+    }),
+  };
+};
+
+describe('sampleTable', () => {
+  it('infers CSV columns and Hive-style partitions', async () => {
+    const s3 = fakeS3({
+      'csv/year=2023/month=01/a.csv': 'id,Full Name,"Created At",score,flag,zip\n1,"Smith, J",2023-01-01 10:00:00,1.5,true,007\n2,Bob,2023-01-02 11:00:00,,false,123\n',
+      'csv/year=2024/month=02/b.csv.gz': zlib.gzipSync('id,Full Name,Created At,score,flag,zip\n3000000000,Al,2023-01-03 00:00:00,2,true,9\n'),
+      'csv/_SUCCESS': 'x',
+    });
+    const table = await sampleTable(s3, 's3://bucket/csv');
+
+    assert.strictEqual(table.location, 's3://bucket/csv/');
+    assert.strictEqual(table.format, 'CSV');
+    assert.strictEqual(table.delimiter, ',');
+    assert.strictEqual(table.quoted, true);
+    assert.strictEqual(table.fileCount, 2);
+    assert.deepStrictEqual(table.columns, [
+      { name: 'id', type: 'bigint' },
+      { name: 'full_name', type: 'string' },
+      { name: 'created_at', type: 'timestamp' },
+      { name: 'score', type: 'double' },
+      { name: 'flag', type: 'boolean' },
+      { name: 'zip', type: 'string' },
+    ]);
+    assert.deepStrictEqual(table.partitions, [
+      { name: 'year', key: 'year', type: 'int', values: ['2023', '2024'] },
+      // zero-padded values stay strings, so the folders can be found again
+      { name: 'month', key: 'month', type: 'string', values: ['01', '02'] },
+    ]);
+  });
+
+  it('merges the fields of JSON lines into nested types', async () => {
+    const s3 = fakeS3({
+      'json/dt=2024-01-01/p1.json': '{"a":1,"b":{"c":"x","d":[1,2.5]},"tags":[{"k":"v"}]}\n{"a":2,"e":null}\n',
+      'json/dt=2024-01-05/p2.json': '{"a":3,"B":{"f":true}}\n',
+    });
+    const table = await sampleTable(s3, 's3://bucket/json/');
+
+    assert.strictEqual(table.format, 'JSON');
+    assert.deepStrictEqual(table.columns, [
+      { name: 'a', type: 'int' },
+      { name: 'b', type: 'struct<c:string,d:array<double>,f:boolean>' },
+      { name: 'tags', type: 'array<struct<k:string>>' },
+      { name: 'e', type: 'string' },
+    ]);
+    assert.deepStrictEqual(table.partitions, [{ name: 'dt', key: 'dt', type: 'date', values: ['2024-01-01', '2024-01-05'] }]);
+  });
+
+  it('reads the schema from the footer of Parquet files', async () => {
+    const s3 = fakeS3({
+      'pq/part-0.snappy.parquet': writeParquet(['id', 'name'], [{ id: 1, name: 'a' }, { id: null, name: null }]),
+    });
+    const table = await sampleTable(s3, 's3://bucket/pq');
+
+    assert.strictEqual(table.format, 'PARQUET');
+    assert.deepStrictEqual(table.columns, [{ name: 'id', type: 'bigint' }, { name: 'name', type: 'string' }]);
+    assert.deepStrictEqual(table.partitions, []);
+  });
+
+  it('rejects JSON arrays and empty locations', async () => {
+    await assert.rejects(sampleTable(fakeS3({ 'arr/a.json': '[{"a":1}]' }), 's3://bucket/arr'), /one object per line/);
+    await assert.rejects(sampleTable(fakeS3({ 'none/_SUCCESS': 'x' }), 's3://bucket/none'), /no uncompressed or gzip compressed data files/);
+  });
+});
+
+describe('createTableStatement', () => {
+  const table: InferredTable = {
+    location: 's3://bucket/events/',
+    format: 'CSV',
+    delimiter: '\t',
+    quoted: false,
+    columns: [{ name: 'id', type: 'bigint' }, { name: 'payload', type: 'array<struct<k:string>>' }],
+    partitions: [{ name: 'year', key: 'Year', type: 'int', values: ['2023', '2024'] }],
+    sampledFiles: ['s3://bucket/events/Year=2023/a.tsv'],
+    fileCount: 2,
+  };
+
+  it('loads partitions with MSCK REPAIR TABLE', () => {
+    const statement = createTableStatement(table, { database: 'db', table: 'events', projection: false });
+    assert.ok(statement.indexOf('CREATE EXTERNAL TABLE `db`.`events` (\n  `id` bigint,\n  `payload` array<struct<k:string>>\n)') >= 0);
+    assert.ok(statement.indexOf('PARTITIONED BY (\n  `year` int\n)') >= 0);
+    assert.ok(statement.indexOf('FIELDS TERMINATED BY \'\\t\'') >= 0);
+    assert.ok(statement.indexOf('\'skip.header.line.count\' = \'1\'') >= 0);
+    assert.ok(/MSCK REPAIR TABLE `db`.`events`;\n$/.test(statement));
+  });
+
+  it('projects partitions from the values found', () => {
+    const statement = createTableStatement(table, { database: 'db', table: 'events', projection: true });
+    assert.ok(statement.indexOf('\'projection.year.range\' = \'2023,2024\'') >= 0);
+    assert.ok(statement.indexOf('\'storage.location.template\' = \'s3://bucket/events/Year=${year}/\'') >= 0);
+    assert.ok(statement.indexOf('MSCK') < 0);
+  });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { CsvParser, CsvRow, parseS3Uri } from '../ls/output';
+
+const parse = (chunks: string[], delimiter?: string) => {
+  const parser = new CsvParser(delimiter);
+  const rows: CsvRow[] = [];
+  chunks.forEach((chunk) => rows.push(...parser.write(chunk)));
+  rows.push(...parser.end());
+  return rows;
+};
+
+describe('CsvParser', () => {
+  it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+    assert.deepStrictEqual(parse(['"id","text"\r\n"1","a, ""b""\nc"\r\n']), [
+      ['id', 'text'],
+      ['1', 'a, "b"\nc'],
+    ]);
+  });
+
+  it('returns NULL as undefined and an empty string as empty', () => {
+    assert.deepStrictEqual(parse(['"a",,""\n']), [['a', undefined, '']]);
+  });
+
+  it('keeps its state across chunks', () => {
+    const text = '"x","say ""hi""\nthere"\n"y",\n';
+    const expected = [['x', 'say "hi"\nthere'], ['y', undefined]];
+    for (let i = 1; i < text.length; i++) {
+      assert.deepStrictEqual(parse([text.substring(0, i), text.substring(i)]), expected, `split at ${i}`);
+    }
+  });
+
+  it('ends the last row without a line break', () => {
+    assert.deepStrictEqual(parse(['"a","b"\n"c","d"']), [['a', 'b'], ['c', 'd']]);
+    assert.deepStrictEqual(parse(['"a"\n']), [['a']]);
+  });
+
+  it('reads unquoted fields with other delimiters', () => {
+    assert.deepStrictEqual(parse(['id\tname\n1\tBob\n'], '\t'), [['id', 'name'], ['1', 'Bob']]);
+  });
+});
+
+describe('parseS3Uri', () => {
+  it('splits the bucket and key', () => {
+    assert.deepStrictEqual(parseS3Uri('s3://bucket/path/to/file.csv'), { Bucket: 'bucket', Key: 'path/to/file.csv' });
+    assert.deepStrictEqual(parseS3Uri('s3://bucket'), { Bucket: 'bucket', Key: '' });
+  });
+
+  it('rejects other locations', () => {
+    assert.throws(() => parseS3Uri('https://bucket.s3.amazonaws.com/key'), /is not an S3 location/);
+  });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { executedStatementName, findPlaceholders, isPrepare, toPositional, toSqlLiteral } from '../ls/parameters';
+
+describe('findPlaceholders', () => {
+  it('finds ? and :name placeholders with their offsets', () => {
+    assert.deepStrictEqual(findPlaceholders('SELECT * FROM t WHERE a = ? AND b = :name'), [
+      { name: '', start: 26, length: 1 },
+      { name: 'name', start: 36, length: 5 },
+    ]);
+  });
+
+  it('ignores strings, quoted identifiers, comments, casts and map access', () => {
+    const sql = 'SELECT \'?\', "col:x", a::varchar, m[\'k\'] -- :skip ?\n/* ? */ FROM t WHERE ts > TIME \'10:00\'';
+    assert.deepStrictEqual(findPlaceholders(sql), []);
+  });
+});
+
+describe('toPositional', () => {
+  it('replaces named placeholders with ?, once per use', () => {
+    const sql = 'SELECT :id, ? FROM t WHERE id = :id AND x = :other';
+    assert.strictEqual(toPositional(sql, findPlaceholders(sql)), 'SELECT ?, ? FROM t WHERE id = ? AND x = ?');
+  });
+});
+
+describe('prepared statements', () => {
+  it('recognizes PREPARE and EXECUTE without USING after comments', () => {
+    assert.strictEqual(isPrepare('-- saved\nPREPARE q FROM SELECT ?'), true);
+    assert.strictEqual(isPrepare('SELECT \'prepare \''), false);
+    assert.strictEqual(executedStatementName('/* run */ EXECUTE "my ""q"""'), 'my "q"');
+    assert.strictEqual(executedStatementName('EXECUTE q USING 1'), null);
+  });
+});
+
+describe('toSqlLiteral', () => {
+  it('keeps numbers, booleans, NULL and quoted strings', () => {
+    ['42', '-1.5', '1e-3', 'TRUE', 'null', '\'it\'\'s\'']
+      .forEach((value) => assert.strictEqual(toSqlLiteral(value), value, value));
+  });
+
+  it('keeps typed literals, trimmed', () => {
+    assert.strictEqual(toSqlLiteral('  DATE \'2024-01-31\' '), 'DATE \'2024-01-31\'');
+    assert.strictEqual(toSqlLiteral('timestamp \'2024-01-31 10:00:00\''), 'timestamp \'2024-01-31 10:00:00\'');
+    assert.strictEqual(toSqlLiteral('X\'65683F\''), 'X\'65683F\'');
+    assert.strictEqual(toSqlLiteral('INTERVAL \'2\' DAY'), 'INTERVAL \'2\' DAY');
+    assert.strictEqual(toSqlLiteral('interval \'1-6\' year to month'), 'interval \'1-6\' year to month');
+  });
+
+  it('quotes anything else, including literals followed by more SQL', () => {
+    assert.strictEqual(toSqlLiteral('Bob'), '\'Bob\'');
+    assert.strictEqual(toSqlLiteral('O\'Brien'), '\'O\'\'Brien\'');
+    assert.strictEqual(toSqlLiteral('DATE \'2024-01-01\' OR 1=1'), '\'DATE \'\'2024-01-01\'\' OR 1=1\'');
+    assert.strictEqual(toSqlLiteral('INTERVAL \'2\' DAY; DROP TABLE t'), '\'INTERVAL \'\'2\'\' DAY; DROP TABLE t\'');
+    assert.strictEqual(toSqlLiteral('\'a\' OR \'1\'=\'1\''), '\'\'\'a\'\' OR \'\'1\'\'=\'\'1\'\'\'');
+  });
+});
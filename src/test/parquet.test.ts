@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { parquetFooterLength, PARQUET_TAIL_LENGTH, readParquetColumns, writeParquet } from '../ls/parquet';
+
+const footerOf = (file: Buffer) => {
+  const tailStart = file.length - PARQUET_TAIL_LENGTH;
+  const length = parquetFooterLength(file.slice(tailStart));
+  return file.slice(tailStart - length, tailStart);
+};
+
+const int64 = (value: number) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigInt64LE(BigInt(value), 0);
+  return bytes;
+};
+
+describe('writeParquet', () => {
+  const rows = [
+    { id: 1, big: 2 ** 40 + 1, name: 'a', score: 1.5, flag: true, at: new Date(Date.UTC(2024, 0, 31)), empty: null },
+    { id: null, big: -(2 ** 40), name: null, score: null, flag: null, at: null, empty: null },
+    { id: 3, big: 7, name: 'ü', score: 2, flag: false, at: new Date(0), empty: undefined },
+  ];
+  const columns = ['id', 'big', 'name', 'score', 'flag', 'at', 'empty'];
+  const file = writeParquet(columns, rows);
+
+  it('starts and ends with the Parquet magic number', () => {
+    assert.strictEqual(file.slice(0, 4).toString('latin1'), 'PAR1');
+    assert.strictEqual(file.slice(-4).toString('latin1'), 'PAR1');
+  });
+
+  it('writes a schema with the type of each column, NULL-only columns as strings', () => {
+    assert.deepStrictEqual(readParquetColumns(footerOf(file)), {
+      columns: [
+        { name: 'id', type: 'bigint' },
+        { name: 'big', type: 'bigint' },
+        { name: 'name', type: 'string' },
+        { name: 'score', type: 'double' },
+        { name: 'flag', type: 'boolean' },
+        { name: 'at', type: 'timestamp' },
+        { name: 'empty', type: 'string' },
+      ],
+      rows: 3,
+    });
+  });
+
+  it('writes int64 values beyond 32 bits', () => {
+    assert.ok(file.indexOf(int64(2 ** 40 + 1)) >= 0);
+    assert.ok(file.indexOf(int64(-(2 ** 40))) >= 0);
+    assert.ok(file.indexOf(int64(Date.UTC(2024, 0, 31))) >= 0);
+  });
+
+  it('writes NULLs as definition levels, leaving them out of the values', () => {
+    // length, then runs of one present, one NULL and one present value
+    const levels = Buffer.from([6, 0, 0, 0, 2, 1, 2, 0, 2, 1]);
+    const idValues = Buffer.concat([int64(1), int64(3)]);
+    assert.ok(file.indexOf(Buffer.concat([levels, idValues])) >= 0);
+  });
+});
+
+describe('parquetFooterLength', () => {
+  it('rejects files without the magic number', () => {
+    assert.throws(() => parquetFooterLength(Buffer.from('12345678')), /Not a Parquet file/);
+    assert.throws(() => parquetFooterLength(Buffer.from('PAR1')), /Not a Parquet file/);
+  });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { calculationCode, isSparkWorkgroup, parseCalculationResult } from '../ls/spark';
+
+describe('isSparkWorkgroup', () => {
+  it('reads the engine version', () => {
+    assert.strictEqual(isSparkWorkgroup({ Name: 'spark', Configuration: { EngineVersion: { EffectiveEngineVersion: 'PySpark engine version 3' } } }), true);
+    assert.strictEqual(isSparkWorkgroup({ Name: 'sql', Configuration: { EngineVersion: { SelectedEngineVersion: 'Athena engine version 3' } } }), false);
+    assert.strictEqual(isSparkWorkgroup({ Name: 'none' }), false);
+  });
+});
+
+describe('calculationCode', () => {
+  it('adds the %%sql magic to Spark SQL only', () => {
+    assert.strictEqual(calculationCode('SELECT 1', 'Spark SQL'), '%%sql\nSELECT 1');
+    assert.strictEqual(calculationCode('  %%configure\n{}', 'Spark SQL'), '  %%configure\n{}');
+    assert.strictEqual(calculationCode('spark.sql("SELECT 1").show()', 'PySpark'), 'spark.sql("SELECT 1").show()');
+  });
+});
+
+describe('parseCalculationResult', () => {
+  it('reads a JSON array or JSON lines of records as a table', () => {
+    assert.deepStrictEqual(parseCalculationResult('[{"a":1},{"a":2,"b":"x"}]'), { cols: ['a', 'b'], rows: [{ a: 1 }, { a: 2, b: 'x' }] });
+    assert.deepStrictEqual(parseCalculationResult('{"a":1}\n{"b":null}\n'), { cols: ['a', 'b'], rows: [{ a: 1 }, { b: null }] });
+  });
+
+  it('reads IPython text/plain display data and other text one line per row', () => {
+    assert.deepStrictEqual(parseCalculationResult('{"text/plain": "+---+\\n| a |\\n+---+\\n"}'), {
+      cols: ['result'],
+      rows: [{ result: '+---+' }, { result: '| a |' }, { result: '+---+' }],
+    });
+    assert.deepStrictEqual(parseCalculationResult('done\n'), { cols: ['result'], rows: [{ result: 'done' }] });
+  });
+
+  it('prints other JSON values', () => {
+    assert.deepStrictEqual(parseCalculationResult('42'), { cols: ['result'], rows: [{ result: '42' }] });
+    assert.deepStrictEqual(parseCalculationResult('  \n'), { cols: [], rows: [] });
+  });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { findTableReferences, isReadOnlyStatement, maskLiterals, parseWorkgroupDirective, splitStatements } from '../ls/statements';
+
+describe('splitStatements', () => {
+  it('splits on semicolons and trims the statements', () => {
+    assert.deepStrictEqual(splitStatements('SELECT 1;\n  SELECT 2 ;'), ['SELECT 1', 'SELECT 2']);
+  });
+
+  it('ignores semicolons in strings, quoted identifiers and comments', () => {
+    const script = [
+      'SELECT \'a;b\', "c;d", `e;f` FROM t -- trailing; comment',
+      ';',
+      'SELECT /* block; comment */ \'it\'\'s; fine\'',
+    ].join('\n');
+    assert.deepStrictEqual(splitStatements(script), [
+      'SELECT \'a;b\', "c;d", `e;f` FROM t -- trailing; comment',
+      'SELECT /* block; comment */ \'it\'\'s; fine\'',
+    ]);
+  });
+
+  it('drops statements holding only whitespace and comments', () => {
+    assert.deepStrictEqual(splitStatements('-- header\n;;\n/* nothing */;\nSELECT 1;\n-- footer'), ['SELECT 1']);
+  });
+
+  it('keeps an unterminated string in its statement', () => {
+    assert.deepStrictEqual(splitStatements('SELECT \'open; still open'), ['SELECT \'open; still open']);
+  });
+});
+
+describe('maskLiterals', () => {
+  it('blanks out strings and comments, keeping offsets and line breaks', () => {
+    const sql = 'SELECT \'limit 10\' -- where\nFROM t';
+    const masked = maskLiterals(sql);
+    assert.strictEqual(masked.length, sql.length);
+    assert.ok(!/limit|where/.test(masked));
+    assert.strictEqual(masked.split('\n').length, 2);
+  });
+});
+
+describe('findTableReferences', () => {
+  const names = (sql: string) => findTableReferences(sql).map((reference) => reference.name);
+
+  it('finds qualified and quoted table names after FROM and JOIN', () => {
+    assert.deepStrictEqual(
+      names('SELECT * FROM db.events e JOIN "AwsDataCatalog"."my-db"."users" u ON e.id = u.id'),
+      ['db.events', '"AwsDataCatalog"."my-db"."users"'],
+    );
+  });
+
+  it('ignores FROM in function calls, strings and comments', () => {
+    assert.deepStrictEqual(
+      names('SELECT extract(year FROM ts), trim(\' \' FROM name), \'from x\' -- from y\nFROM events'),
+      ['events'],
+    );
+  });
+
+  it('scopes each reference to its query block', () => {
+    const [outer, inner] = findTableReferences('SELECT * FROM a WHERE id IN (SELECT id FROM big WHERE dt = \'2024\') LIMIT 10');
+    assert.strictEqual(inner.name, 'big');
+    assert.ok(!/limit/i.test(inner.block));
+    assert.ok(/dt =/.test(inner.block));
+    assert.strictEqual(outer.name, 'a');
+    assert.ok(!/\bdt\b/.test(outer.block));
+  });
+
+  it('cuts blocks at set operators', () => {
+    const [first, second] = findTableReferences('SELECT * FROM big UNION ALL SELECT * FROM small WHERE dt = 1');
+    assert.ok(!/where/i.test(first.block));
+    assert.ok(/where/i.test(second.block));
+  });
+});
+
+describe('isReadOnlyStatement', () => {
+  it('accepts queries, SHOW, DESCRIBE and EXPLAIN after comments', () => {
+    ['-- workgroup: etl\nSELECT 1', '(SELECT 1)', 'WITH a AS (SELECT 1) SELECT * FROM a', 'show tables', 'DESCRIBE t', 'EXPLAIN INSERT INTO t SELECT 1']
+      .forEach((sql) => assert.strictEqual(isReadOnlyStatement(sql), true, sql));
+  });
+
+  it('rejects writes, including the ones EXPLAIN ANALYZE runs', () => {
+    ['INSERT INTO t SELECT 1', 'CREATE TABLE t AS SELECT 1', 'UNLOAD (SELECT 1) TO \'s3://bucket/\'', 'EXPLAIN ANALYZE DELETE FROM t']
+      .forEach((sql) => assert.strictEqual(isReadOnlyStatement(sql), false, sql));
+  });
+});
+
+describe('parseWorkgroupDirective', () => {
+  it('reads a workgroup comment before the first code', () => {
+    assert.strictEqual(parseWorkgroupDirective('-- workgroup: etl\nSELECT 1'), 'etl');
+    assert.strictEqual(parseWorkgroupDirective('/* daily */\n  -- Workgroup:  team-a  \nSELECT 1'), 'team-a');
+  });
+
+  it('ignores comments after code and other comments', () => {
+    assert.strictEqual(parseWorkgroupDirective('SELECT 1 -- workgroup: etl'), null);
+    assert.strictEqual(parseWorkgroupDirective('-- workgroup etl\nSELECT 1'), null);
+    assert.strictEqual(parseWorkgroupDirective('-- workgroup: a b\nSELECT 1'), null);
+  });
+});
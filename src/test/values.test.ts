@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseComplex, parseValue } from '../ls/values';
+
+const column = (Type: string, Precision?: number) => ({ Name: 'c', Type, Precision });
+
+describe('parseValue', () => {
+  it('returns null for missing values', () => {
+    assert.strictEqual(parseValue(undefined, column('varchar')), null);
+  });
+
+  it('keeps integers beyond the safe range as strings', () => {
+    assert.strictEqual(parseValue('42', column('integer')), 42);
+    assert.strictEqual(parseValue('-9007199254740991', column('bigint')), -9007199254740991);
+    assert.strictEqual(parseValue('9223372036854775807', column('bigint')), '9223372036854775807');
+  });
+
+  it('converts decimals only when a double holds them', () => {
+    assert.strictEqual(parseValue('12.50', column('decimal', 10)), 12.5);
+    assert.strictEqual(parseValue('12345678901234567.89', column('decimal', 19)), '12345678901234567.89');
+  });
+
+  it('converts booleans, doubles and json', () => {
+    assert.strictEqual(parseValue('true', column('boolean')), true);
+    assert.strictEqual(parseValue('1.5E-3', column('double')), 0.0015);
+    assert.deepStrictEqual(parseValue('{"a":[1,null]}', column('json')), { a: [1, null] });
+    assert.strictEqual(parseValue('not json', column('json')), 'not json');
+  });
+
+  it('keeps dates and timestamps without a zone as text', () => {
+    assert.strictEqual(parseValue('2024-01-31', column('date')), '2024-01-31');
+    assert.strictEqual(parseValue('2024-01-31 23:59:59.123456', column('timestamp')), '2024-01-31 23:59:59.123456');
+  });
+
+  it('converts timestamps with a zone only without precision loss', () => {
+    const utc = parseValue('2024-01-31 23:59:59.123 UTC', column('timestamp with time zone'));
+    assert.ok(utc instanceof Date);
+    assert.strictEqual(utc.toISOString(), '2024-01-31T23:59:59.123Z');
+
+    const offset = parseValue('2024-01-31 23:59:59.000 +02:00', column('timestamp with time zone'));
+    assert.ok(offset instanceof Date);
+    assert.strictEqual(offset.toISOString(), '2024-01-31T21:59:59.000Z');
+
+    assert.strictEqual(
+      parseValue('2024-01-31 23:59:59.123 America/New_York', column('timestamp with time zone')),
+      '2024-01-31 23:59:59.123 America/New_York',
+    );
+    assert.strictEqual(
+      parseValue('2024-01-31 23:59:59.123456 UTC', column('timestamp with time zone')),
+      '2024-01-31 23:59:59.123456 UTC',
+    );
+  });
+
+  it('parses arrays, maps and rows', () => {
+    assert.deepStrictEqual(parseValue('[1, 2, 3]', column('array')), [1, 2, 3]);
+    assert.deepStrictEqual(parseValue('{a=1, b=x}', column('map')), { a: 1, b: 'x' });
+    assert.deepStrictEqual(parseValue('{id=7, tags=[a, b], active=true}', column('row')), { id: 7, tags: ['a', 'b'], active: true });
+  });
+});
+
+describe('parseComplex', () => {
+  it('parses nested arrays of maps', () => {
+    assert.deepStrictEqual(parseComplex('[{a=[1, 2], b=[]}, {c=[3.5]}, {}]'), [{ a: [1, 2], b: [] }, { c: [3.5] }, {}]);
+  });
+
+  it('parses nulls and empty strings', () => {
+    assert.deepStrictEqual(parseComplex('[null, , x]'), [null, '', 'x']);
+    assert.deepStrictEqual(parseComplex('{k=null}'), { k: null });
+  });
+
+  it('returns the text it cannot parse', () => {
+    assert.strictEqual(parseComplex('[1, 2] tail'), '[1, 2] tail');
+  });
+});